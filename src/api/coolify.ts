@@ -2,15 +2,51 @@
  * Coolify REST API client
  */
 
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first attempt (0 disables retries)
+  baseDelayMs: number; // Backoff before the first retry, doubled on each retry
+  maxDelayMs: number; // Upper bound of a backoff, including a Retry-After delay
+}
+
 export interface CoolifyApiConfig {
   apiUrl: string;
   token: string;
+  timeoutMs?: number; // Per attempt (0 disables the timeout)
+  retry?: Partial<RetryPolicy>;
 }
 
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+// Errors raised by fetch before the request reached the server
+const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
 export interface CoolifyApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  apiError?: CoolifyApiError; // Details of the failure, set whenever success is false
+}
+
+export interface CoolifyApiError {
+  status?: number; // HTTP status (undefined for network errors and timeouts)
+  message: string;
+  fieldErrors?: Record<string, string[]>; // Validation errors per payload field (422)
+  method: string;
+  endpoint: string;
+  requestId?: string;
 }
 
 export interface CreateDatabaseResponse {
@@ -26,6 +62,60 @@ export interface CreateServiceResponse {
   domains: string[];
 }
 
+export interface CreateEnvironmentVariableResponse {
+  uuid: string;
+}
+
+export interface EnvironmentVariablePayload {
+  key: string;
+  value: string;
+  is_preview?: boolean;
+  is_literal?: boolean;
+  is_multiline?: boolean;
+  is_shown_once?: boolean;
+}
+
+export interface BulkEnvironmentVariablesPayload {
+  data: EnvironmentVariablePayload[];
+}
+
+export interface DeleteResourceOptions {
+  deleteConfigurations?: boolean;
+  deleteVolumes?: boolean;
+  dockerCleanup?: boolean;
+  deleteConnectedNetworks?: boolean;
+}
+
+export interface DeleteResourceResponse {
+  message: string;
+}
+
+export interface DeployTriggerResponse {
+  deployments: {
+    message: string;
+    resource_uuid: string;
+    deployment_uuid?: string; // Only set for resources that queue a build (applications)
+  }[];
+}
+
+export type CoolifyDeploymentStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'finished'
+  | 'failed'
+  | 'cancelled-by-user';
+
+export interface CoolifyDeployment {
+  id?: number;
+  deployment_uuid: string;
+  application_id?: number;
+  application_name?: string;
+  status: CoolifyDeploymentStatus;
+  commit?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface CreateProjectPayload {
   name: string;
   description?: string;
@@ -56,6 +146,12 @@ export interface CoolifyDatabase {
   uuid: string;
   name: string;
   type?: string;
+  internal_db_url?: string;
+  external_db_url?: string;
+  image?: string;
+  is_public?: boolean;
+  public_port?: number | null;
+  status?: string; // e.g. "running:healthy", "exited"
   project_uuid?: string;
   environment_id?: number;
   environment?: {
@@ -68,6 +164,15 @@ export interface CoolifyDatabase {
 export interface CoolifyApplication {
   uuid: string;
   name: string;
+  build_pack?: string;
+  docker_registry_image_name?: string | null;
+  docker_registry_image_tag?: string | null;
+  git_repository?: string | null;
+  git_branch?: string | null;
+  base_directory?: string | null;
+  ports_exposes?: string | null;
+  fqdn?: string | null;
+  status?: string; // e.g. "running:healthy", "exited"
   project_uuid?: string;
   environment_id?: number;
   environment?: {
@@ -80,6 +185,8 @@ export interface CoolifyApplication {
 export interface CoolifyService {
   uuid: string;
   name: string;
+  service_type?: string | null;
+  status?: string; // e.g. "running:healthy", "exited"
   project_uuid?: string;
   environment_id?: number;
   environment?: {
@@ -89,6 +196,27 @@ export interface CoolifyService {
   };
 }
 
+export interface CoolifyPersistentStorage {
+  id?: number;
+  uuid?: string;
+  name: string;
+  mount_path: string;
+  host_path?: string | null;
+}
+
+export interface CoolifyStorages {
+  persistent_storages: CoolifyPersistentStorage[];
+  file_storages?: unknown[];
+}
+
+export interface CoolifyEnvironmentVariable {
+  uuid: string;
+  key: string;
+  value: string | null;
+  is_preview?: boolean;
+  is_literal?: boolean;
+}
+
 // Database payload types
 export interface PostgresDatabasePayload {
   server_uuid: string;
@@ -121,6 +249,22 @@ export interface MysqlDatabasePayload {
   instant_deploy?: boolean;
 }
 
+export interface MariaDbDatabasePayload {
+  server_uuid: string;
+  project_uuid: string;
+  environment_name: string;
+  name?: string;
+  description?: string;
+  image?: string;
+  mariadb_user?: string;
+  mariadb_password?: string;
+  mariadb_database?: string;
+  mariadb_root_password?: string;
+  is_public?: boolean;
+  public_port?: number;
+  instant_deploy?: boolean;
+}
+
 export interface MongoDbDatabasePayload {
   server_uuid: string;
   project_uuid: string;
@@ -149,6 +293,46 @@ export interface RedisDatabasePayload {
   instant_deploy?: boolean;
 }
 
+export interface KeyDbDatabasePayload {
+  server_uuid: string;
+  project_uuid: string;
+  environment_name: string;
+  name?: string;
+  description?: string;
+  image?: string;
+  keydb_password?: string;
+  is_public?: boolean;
+  public_port?: number;
+  instant_deploy?: boolean;
+}
+
+export interface DragonflyDatabasePayload {
+  server_uuid: string;
+  project_uuid: string;
+  environment_name: string;
+  name?: string;
+  description?: string;
+  image?: string;
+  dragonfly_password?: string;
+  is_public?: boolean;
+  public_port?: number;
+  instant_deploy?: boolean;
+}
+
+export interface ClickhouseDatabasePayload {
+  server_uuid: string;
+  project_uuid: string;
+  environment_name: string;
+  name?: string;
+  description?: string;
+  image?: string;
+  clickhouse_admin_user?: string;
+  clickhouse_admin_password?: string;
+  is_public?: boolean;
+  public_port?: number;
+  instant_deploy?: boolean;
+}
+
 // Application payload types
 export interface DockerImageApplicationPayload {
   server_uuid: string;
@@ -224,18 +408,22 @@ export interface ServicePayload {
   server_uuid: string;
   project_uuid: string;
   environment_name: string;
-  type: string;
+  type?: string; // One-click service template, or docker_compose_raw for custom services
   name: string;
   description?: string;
   instant_deploy?: boolean;
-  docker_compose_raw?: string;
+  docker_compose_raw?: string; // Base64-encoded compose document
 }
 
 export type DatabasePayload =
   | PostgresDatabasePayload
   | MysqlDatabasePayload
+  | MariaDbDatabasePayload
   | MongoDbDatabasePayload
-  | RedisDatabasePayload;
+  | RedisDatabasePayload
+  | KeyDbDatabasePayload
+  | DragonflyDatabasePayload
+  | ClickhouseDatabasePayload;
 
 export type ApplicationPayload =
   | DockerImageApplicationPayload
@@ -243,22 +431,91 @@ export type ApplicationPayload =
   | PublicRepositoryApplicationPayload
   | PrivateGithubAppApplicationPayload;
 
+// Persistent storage payload: a named Docker volume, or a bind mount when host_path is set
+export interface PersistentStoragePayload {
+  type: 'persistent';
+  name: string;
+  mount_path: string;
+  host_path?: string;
+  is_read_only?: boolean;
+}
+
+// Update payload types (only the fields that drifted are sent)
+export interface UpdateDatabasePayload {
+  image?: string;
+  is_public?: boolean;
+  public_port?: number;
+}
+
+export interface UpdateApplicationPayload {
+  domains?: string;
+  git_repository?: string;
+  git_branch?: string;
+  build_pack?: 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose';
+  base_directory?: string;
+  ports_exposes?: string;
+  docker_registry_image_name?: string;
+  docker_registry_image_tag?: string;
+}
+
 export class CoolifyApiClient {
   private apiUrl: string;
   private token: string;
+  private timeoutMs: number;
+  private retry: RetryPolicy;
 
   constructor(config: CoolifyApiConfig) {
     // Remove trailing slash from API URL
     this.apiUrl = config.apiUrl.replace(/\/+$/, '');
     this.token = config.token;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...config.retry };
   }
 
+  /**
+   * Send a request, retrying network errors, timeouts, 429 and 5xx responses
+   * with exponential backoff (or the delay given by Retry-After, up to maxDelayMs).
+   * A POST may have created the resource before failing, so it is only retried when
+   * the server did not process it: 429, 503 with Retry-After, or a failed connection.
+   * The same goes for other requests with side effects, flagged with idempotent: false.
+   */
   private async request<T>(
     method: string,
     endpoint: string,
-    body?: unknown
+    body?: unknown,
+    options: { idempotent?: boolean } = {}
   ): Promise<CoolifyApiResponse<T>> {
+    const idempotent = options.idempotent ?? method !== 'POST';
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await this.attempt<T>(method, endpoint, body, idempotent);
+      if (!outcome.retryable || attempt >= this.retry.maxRetries) {
+        return outcome.response;
+      }
+
+      const retryAfterMs =
+        outcome.retryAfterMs !== undefined
+          ? Math.min(outcome.retryAfterMs, this.retry.maxDelayMs)
+          : undefined;
+      await sleep(retryAfterMs ?? this.backoff(attempt));
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.retry.baseDelayMs * 2 ** attempt, this.retry.maxDelayMs);
+    // Jitter spreads the retries of concurrent requests
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private async attempt<T>(
+    method: string,
+    endpoint: string,
+    body: unknown,
+    idempotent: boolean
+  ): Promise<{ response: CoolifyApiResponse<T>; retryable: boolean; retryAfterMs?: number }> {
     const url = `${this.apiUrl}/api/v1${endpoint}`;
+    const controller = new AbortController();
+    const timer =
+      this.timeoutMs > 0 ? setTimeout(() => controller.abort(), this.timeoutMs) : undefined;
 
     try {
       const response = await fetch(url, {
@@ -269,35 +526,67 @@ export class CoolifyApiClient {
           Accept: 'application/json',
         },
         body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
       });
 
       if (!response.ok) {
         const errorText = await response.text();
         let errorMessage: string;
+        let fieldErrors: Record<string, string[]> | undefined;
 
         try {
           const errorJson = JSON.parse(errorText);
           errorMessage = errorJson.message || errorJson.error || errorText;
+          fieldErrors = parseFieldErrors(errorJson.errors);
         } catch {
           errorMessage = errorText || `HTTP ${response.status}: ${response.statusText}`;
         }
 
+        const apiError: CoolifyApiError = {
+          status: response.status,
+          message: errorMessage,
+          fieldErrors,
+          method,
+          endpoint,
+          requestId: response.headers.get('x-request-id') ?? undefined,
+        };
+
+        // Retry-After is only defined for rate limiting and unavailability
+        const retryAfterMs =
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers.get('retry-after'))
+            : undefined;
         return {
-          success: false,
-          error: errorMessage,
+          response: { success: false, error: errorMessage, apiError },
+          retryable:
+            response.status === 429 ||
+            (idempotent
+              ? response.status >= 500
+              : response.status === 503 && retryAfterMs !== undefined),
+          retryAfterMs,
         };
       }
 
       const data = (await response.json()) as T;
       return {
-        success: true,
-        data,
+        response: { success: true, data },
+        retryable: false,
       };
     } catch (err) {
+      const error = controller.signal.aborted
+        ? `Request timed out after ${this.timeoutMs / 1000}s`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+      // A malformed success body will not get better on retry
       return {
-        success: false,
-        error: err instanceof Error ? err.message : String(err),
+        response: { success: false, error, apiError: { message: error, method, endpoint } },
+        retryable:
+          !(err instanceof SyntaxError) &&
+          (idempotent || (!controller.signal.aborted && isConnectionError(err))),
       };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
@@ -341,11 +630,38 @@ export class CoolifyApiClient {
    * Create a MariaDB database
    */
   async createMariaDbDatabase(
-    payload: MysqlDatabasePayload
+    payload: MariaDbDatabasePayload
   ): Promise<CoolifyApiResponse<CreateDatabaseResponse>> {
     return this.request<CreateDatabaseResponse>('POST', '/databases/mariadb', payload);
   }
 
+  /**
+   * Create a KeyDB database
+   */
+  async createKeyDbDatabase(
+    payload: KeyDbDatabasePayload
+  ): Promise<CoolifyApiResponse<CreateDatabaseResponse>> {
+    return this.request<CreateDatabaseResponse>('POST', '/databases/keydb', payload);
+  }
+
+  /**
+   * Create a Dragonfly database
+   */
+  async createDragonflyDatabase(
+    payload: DragonflyDatabasePayload
+  ): Promise<CoolifyApiResponse<CreateDatabaseResponse>> {
+    return this.request<CreateDatabaseResponse>('POST', '/databases/dragonfly', payload);
+  }
+
+  /**
+   * Create a ClickHouse database
+   */
+  async createClickhouseDatabase(
+    payload: ClickhouseDatabasePayload
+  ): Promise<CoolifyApiResponse<CreateDatabaseResponse>> {
+    return this.request<CreateDatabaseResponse>('POST', '/databases/clickhouse', payload);
+  }
+
   /**
    * Create a Docker image application
    */
@@ -389,6 +705,181 @@ export class CoolifyApiClient {
     return this.request<CreateServiceResponse>('POST', '/services', payload);
   }
 
+  /**
+   * Update a database's settings
+   */
+  async updateDatabase(
+    uuid: string,
+    payload: UpdateDatabasePayload
+  ): Promise<CoolifyApiResponse<unknown>> {
+    return this.request<unknown>('PATCH', `/databases/${uuid}`, payload);
+  }
+
+  /**
+   * Update an application's settings
+   */
+  async updateApplication(
+    uuid: string,
+    payload: UpdateApplicationPayload
+  ): Promise<CoolifyApiResponse<unknown>> {
+    return this.request<unknown>('PATCH', `/applications/${uuid}`, payload);
+  }
+
+  /**
+   * Delete an application
+   */
+  async deleteApplication(
+    uuid: string,
+    options: DeleteResourceOptions = {}
+  ): Promise<CoolifyApiResponse<DeleteResourceResponse>> {
+    return this.request<DeleteResourceResponse>(
+      'DELETE',
+      `/applications/${uuid}${buildDeleteQuery(options)}`
+    );
+  }
+
+  /**
+   * Delete a database
+   */
+  async deleteDatabase(
+    uuid: string,
+    options: DeleteResourceOptions = {}
+  ): Promise<CoolifyApiResponse<DeleteResourceResponse>> {
+    return this.request<DeleteResourceResponse>(
+      'DELETE',
+      `/databases/${uuid}${buildDeleteQuery(options)}`
+    );
+  }
+
+  /**
+   * Delete a service
+   */
+  async deleteService(
+    uuid: string,
+    options: DeleteResourceOptions = {}
+  ): Promise<CoolifyApiResponse<DeleteResourceResponse>> {
+    return this.request<DeleteResourceResponse>(
+      'DELETE',
+      `/services/${uuid}${buildDeleteQuery(options)}`
+    );
+  }
+
+  /**
+   * Create an environment variable on an application
+   */
+  async createApplicationEnv(
+    applicationUuid: string,
+    payload: EnvironmentVariablePayload
+  ): Promise<CoolifyApiResponse<CreateEnvironmentVariableResponse>> {
+    return this.request<CreateEnvironmentVariableResponse>(
+      'POST',
+      `/applications/${applicationUuid}/envs`,
+      payload
+    );
+  }
+
+  /**
+   * Create or update several environment variables on an application at once
+   */
+  async updateApplicationEnvs(
+    applicationUuid: string,
+    payload: BulkEnvironmentVariablesPayload
+  ): Promise<CoolifyApiResponse<unknown>> {
+    return this.request<unknown>('PATCH', `/applications/${applicationUuid}/envs/bulk`, payload);
+  }
+
+  /**
+   * Create an environment variable on a service
+   */
+  async createServiceEnv(
+    serviceUuid: string,
+    payload: EnvironmentVariablePayload
+  ): Promise<CoolifyApiResponse<CreateEnvironmentVariableResponse>> {
+    return this.request<CreateEnvironmentVariableResponse>(
+      'POST',
+      `/services/${serviceUuid}/envs`,
+      payload
+    );
+  }
+
+  /**
+   * Create or update several environment variables on a service at once
+   */
+  async updateServiceEnvs(
+    serviceUuid: string,
+    payload: BulkEnvironmentVariablesPayload
+  ): Promise<CoolifyApiResponse<unknown>> {
+    return this.request<unknown>('PATCH', `/services/${serviceUuid}/envs/bulk`, payload);
+  }
+
+  /**
+   * List the persistent and file storages of an application
+   */
+  async listApplicationStorages(uuid: string): Promise<CoolifyApiResponse<CoolifyStorages>> {
+    return this.request<CoolifyStorages>('GET', `/applications/${uuid}/storages`);
+  }
+
+  /**
+   * Attach a persistent volume or bind mount to an application
+   */
+  async createApplicationStorage(
+    uuid: string,
+    payload: PersistentStoragePayload
+  ): Promise<CoolifyApiResponse<CoolifyPersistentStorage>> {
+    return this.request<CoolifyPersistentStorage>(
+      'POST',
+      `/applications/${uuid}/storages`,
+      payload
+    );
+  }
+
+  /**
+   * List the persistent and file storages of a service
+   */
+  async listServiceStorages(uuid: string): Promise<CoolifyApiResponse<CoolifyStorages>> {
+    return this.request<CoolifyStorages>('GET', `/services/${uuid}/storages`);
+  }
+
+  /**
+   * Attach a persistent volume or bind mount to a service
+   */
+  async createServiceStorage(
+    uuid: string,
+    payload: PersistentStoragePayload
+  ): Promise<CoolifyApiResponse<CoolifyPersistentStorage>> {
+    return this.request<CoolifyPersistentStorage>('POST', `/services/${uuid}/storages`, payload);
+  }
+
+  /**
+   * Start a deployment of an application, database or service
+   */
+  async triggerDeploy(
+    uuid: string,
+    options: { force?: boolean } = {}
+  ): Promise<CoolifyApiResponse<DeployTriggerResponse>> {
+    // Each call queues a deployment, a retry after a timeout could queue a second one
+    return this.request<DeployTriggerResponse>(
+      'GET',
+      `/deploy?uuid=${encodeURIComponent(uuid)}&force=${options.force ?? false}`,
+      undefined,
+      { idempotent: false }
+    );
+  }
+
+  /**
+   * Get the status of a deployment
+   */
+  async getDeployment(deploymentUuid: string): Promise<CoolifyApiResponse<CoolifyDeployment>> {
+    return this.request<CoolifyDeployment>('GET', `/deployments/${deploymentUuid}`);
+  }
+
+  /**
+   * List the deployments currently queued or running
+   */
+  async listDeployments(): Promise<CoolifyApiResponse<CoolifyDeployment[]>> {
+    return this.request<CoolifyDeployment[]>('GET', '/deployments');
+  }
+
   /**
    * Test connection to the Coolify API
    */
@@ -437,6 +928,13 @@ export class CoolifyApiClient {
     return this.request<CreateProjectResponse>('POST', '/projects', payload);
   }
 
+  /**
+   * Delete a project (Coolify refuses to delete projects that still contain resources)
+   */
+  async deleteProject(uuid: string): Promise<CoolifyApiResponse<DeleteResourceResponse>> {
+    return this.request<DeleteResourceResponse>('DELETE', `/projects/${uuid}`);
+  }
+
   /**
    * List all projects
    */
@@ -461,6 +959,13 @@ export class CoolifyApiClient {
     return this.request<CoolifyDatabase[]>('GET', '/databases');
   }
 
+  /**
+   * Get a database by UUID (includes its internal and external connection URLs)
+   */
+  async getDatabase(uuid: string): Promise<CoolifyApiResponse<CoolifyDatabase>> {
+    return this.request<CoolifyDatabase>('GET', `/databases/${uuid}`);
+  }
+
   /**
    * List all applications
    */
@@ -468,10 +973,121 @@ export class CoolifyApiClient {
     return this.request<CoolifyApplication[]>('GET', '/applications');
   }
 
+  /**
+   * Get an application by UUID
+   */
+  async getApplication(uuid: string): Promise<CoolifyApiResponse<CoolifyApplication>> {
+    return this.request<CoolifyApplication>('GET', `/applications/${uuid}`);
+  }
+
+  /**
+   * List the environment variables of an application
+   */
+  async listApplicationEnvs(
+    uuid: string
+  ): Promise<CoolifyApiResponse<CoolifyEnvironmentVariable[]>> {
+    return this.request<CoolifyEnvironmentVariable[]>('GET', `/applications/${uuid}/envs`);
+  }
+
   /**
    * List all services
    */
   async listServices(): Promise<CoolifyApiResponse<CoolifyService[]>> {
     return this.request<CoolifyService[]>('GET', '/services');
   }
+
+  /**
+   * Get a service by UUID
+   */
+  async getService(uuid: string): Promise<CoolifyApiResponse<CoolifyService>> {
+    return this.request<CoolifyService>('GET', `/services/${uuid}`);
+  }
+
+  /**
+   * List the environment variables of a service
+   */
+  async listServiceEnvs(uuid: string): Promise<CoolifyApiResponse<CoolifyEnvironmentVariable[]>> {
+    return this.request<CoolifyEnvironmentVariable[]>('GET', `/services/${uuid}/envs`);
+  }
+}
+
+/**
+ * Build the query string for resource deletion options (omitted options keep Coolify defaults)
+ */
+function buildDeleteQuery(options: DeleteResourceOptions): string {
+  const flags: Array<[string, boolean | undefined]> = [
+    ['delete_configurations', options.deleteConfigurations],
+    ['delete_volumes', options.deleteVolumes],
+    ['docker_cleanup', options.dockerCleanup],
+    ['delete_connected_networks', options.deleteConnectedNetworks],
+  ];
+
+  const query = flags
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Normalize Laravel-style validation errors ({ field: [messages] }) returned by Coolify
+ */
+function parseFieldErrors(errors: unknown): Record<string, string[]> | undefined {
+  if (!errors || typeof errors !== 'object' || Array.isArray(errors)) {
+    return undefined;
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  for (const [field, messages] of Object.entries(errors)) {
+    fieldErrors[field] = (Array.isArray(messages) ? messages : [messages]).map(String);
+  }
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+}
+
+/**
+ * Describe where an API error happened, e.g. "HTTP 422 on POST /databases/postgresql"
+ */
+export function describeApiErrorContext(apiError: CoolifyApiError): string {
+  const status = apiError.status !== undefined ? `HTTP ${apiError.status}` : 'Request failed';
+  const requestId = apiError.requestId ? `, request id ${apiError.requestId}` : '';
+  return `${status} on ${apiError.method} ${apiError.endpoint}${requestId}`;
+}
+
+/**
+ * One "field: message" line per rejected payload field
+ */
+export function formatFieldErrors(apiError: CoolifyApiError | undefined): string[] {
+  return Object.entries(apiError?.fieldErrors ?? {}).flatMap(([field, messages]) =>
+    messages.map((message) => `${field}: ${message}`)
+  );
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether fetch failed to connect, before the request was sent
+ */
+function isConnectionError(err: unknown): boolean {
+  const cause = err instanceof Error ? (err.cause as { code?: string } | undefined) : undefined;
+  return CONNECTION_ERROR_CODES.includes(cause?.code ?? '');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolveDelay) => setTimeout(resolveDelay, ms));
 }
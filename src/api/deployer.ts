@@ -2,37 +2,77 @@
  * Deployer - Deploys Aspire resources to Coolify via API
  */
 
-import type { AspireApp, Database, Service, StorageService, Application } from '../models/aspire.js';
+import {
+  findConnectionString,
+  findSqlServerInstance,
+  type AspireApp,
+  type Database,
+  type Service,
+  type StorageService,
+  type Application,
+  type EnvironmentVariable,
+  type SqlServerInstance,
+  type Volume,
+} from '../models/aspire.js';
 import {
   CoolifyApiClient,
-  type PostgresDatabasePayload,
-  type MysqlDatabasePayload,
-  type MongoDbDatabasePayload,
-  type RedisDatabasePayload,
-  type DockerImageApplicationPayload,
-  type PublicRepositoryApplicationPayload,
-  type PrivateGithubAppApplicationPayload,
+  type DatabasePayload,
   type ServicePayload,
   type CoolifyDatabase,
   type CoolifyApplication,
   type CoolifyService,
+  type EnvironmentVariablePayload,
+  type CoolifyApiResponse,
+  type CoolifyApiError,
+  formatFieldErrors,
 } from './coolify.js';
-
-export interface GitHubConfig {
-  repository: string;
-  branch?: string;
-  basePath?: string;
-  appUuid?: string; // GitHub App UUID for private repositories
-}
-
-export interface DeployConfig {
-  projectUuid: string;
-  serverUuid: string;
-  environmentName: string;
-  instantDeploy?: boolean;
-  github?: GitHubConfig;
-  buildPack?: 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose';
+import {
+  resolveEnvironment,
+  mergeEnvironment,
+  createConnectionStringEnvironment,
+  createServiceDiscoveryEnvironment,
+  createSqlServerConnectionString,
+  type ResolvedEnvironment,
+} from './environment.js';
+import { buildPersistentStorages, getBindMountWarnings } from './storage.js';
+import { hashPlannedResource, type DeploymentState } from '../state/index.js';
+import { getComposeHostname, SQL_SERVER_PASSWORD_ENV } from '../generators/coolify/compose.js';
+import { destroyFromCoolify, type DestroySummary, type DestroyTarget } from './destroyer.js';
+import { buildDependencyGraph, getWaitForTargets, type ResourceKind } from './graph.js';
+import {
+  buildDeploymentPlan,
+  type ApplicationCreation,
+  type DatabaseCreation,
+  type PlanConfig,
+  type PlannedResource,
+} from '../plan/index.js';
+import {
+  deployAndWait,
+  waitUntilHealthy,
+  isFailedDeployment,
+  type DeploymentStatus,
+  type WaitOptions,
+} from './deployments.js';
+import {
+  diffDatabaseSettings,
+  diffApplicationSettings,
+  diffServiceSettings,
+  diffEnvironment,
+} from './drift.js';
+
+export type { GitHubConfig, ApplicationCreation } from '../plan/index.js';
+export {
+  buildDatabasePayload,
+  buildServicePayload,
+  buildSqlServerPayload,
+  buildApplicationPayload,
+} from '../plan/index.js';
+
+export interface DeployConfig extends PlanConfig {
   skipExisting?: boolean;
+  updateExisting?: boolean; // Update drifted settings of existing resources (takes precedence over skipExisting)
+  state?: DeploymentState; // Recorded resource UUIDs, preferred over name matching
+  rollbackOnFailure?: boolean; // Delete the resources created by this run when any resource fails
 }
 
 export interface DeployResult {
@@ -42,6 +82,13 @@ export interface DeployResult {
   uuid?: string;
   error?: string;
   skipped?: boolean;
+  updated?: boolean;
+  changes?: string[]; // Fields updated on an existing resource
+  warnings?: string[];
+  deployment?: DeploymentStatus; // Set when deploying with wait
+  rolledBack?: boolean; // Created by this run, then deleted by the rollback
+  apiError?: CoolifyApiError; // Status, endpoint and rejected fields of a failed API call
+  mapping?: { from: string; to: string }; // Type mapping of the config applied to the resource
 }
 
 export interface DeploymentSummary {
@@ -49,17 +96,61 @@ export interface DeploymentSummary {
   successful: number;
   failed: number;
   skipped: number;
+  updated: number;
+  rollback?: DestroySummary; // Set when a failure triggered a rollback
 }
 
 /**
  * Existing resources cache for skip-existing checks
  */
-interface ExistingResources {
+export interface ExistingResources {
   databases: Map<string, string>; // name -> uuid
   applications: Map<string, string>;
   services: Map<string, string>;
 }
 
+/**
+ * Env variables injected into a resource from its references (e.g. connection strings)
+ */
+export interface InjectedEnvironment {
+  variables: EnvironmentVariablePayload[];
+  warnings: string[];
+}
+
+/**
+ * UUIDs of resources deployed (or reused) during the current run, used to wire references
+ */
+export interface DeployedResources {
+  databases: Map<string, string>; // name -> uuid
+  applications: Map<string, string>;
+  sqlServers: Map<string, string>; // instance name -> service uuid
+  connectionUrls: Map<string, string | undefined>; // database uuid -> internal URL
+  sqlServerPasswords: Map<string, string | undefined>; // service uuid -> SA password
+}
+
+/**
+ * Resources references resolve to: none before a deploy, or the existing resources
+ * when diffing against a live environment
+ */
+export function createDeployedResources(existing?: ExistingResources): DeployedResources {
+  return {
+    databases: new Map(existing?.databases),
+    applications: new Map(existing?.applications),
+    sqlServers: new Map(existing?.services),
+    connectionUrls: new Map(),
+    sqlServerPasswords: new Map(),
+  };
+}
+
+/**
+ * ExistingResources key for each state resource type
+ */
+const STATE_KINDS = {
+  database: 'databases',
+  application: 'applications',
+  service: 'services',
+} as const;
+
 /**
  * Check if a resource belongs to the target project and environment
  * Returns true only if we can confirm the resource belongs to the target,
@@ -97,11 +188,28 @@ function matchesProjectAndEnvironment(
 }
 
 /**
- * Fetch existing resources from Coolify API filtered by project and environment
+ * Whether a resource is known to be in another project or environment. Resources listed
+ * without project info may still be the ones recorded in the state.
  */
-async function fetchExistingResources(
+function belongsElsewhere(
+  resource: { project_uuid?: string; environment?: { name: string } },
+  config: Pick<DeployConfig, 'projectUuid' | 'environmentName'>
+): boolean {
+  return (
+    (resource.project_uuid !== undefined && resource.project_uuid !== config.projectUuid) ||
+    (resource.environment !== undefined && resource.environment.name !== config.environmentName)
+  );
+}
+
+/**
+ * Fetch existing resources from Coolify API filtered by project and environment.
+ * Resources recorded in the state take precedence over name matching, as long as
+ * their UUID still exists in the target project and environment. The state of another
+ * project is ignored.
+ */
+export async function fetchExistingResources(
   client: CoolifyApiClient,
-  config: DeployConfig,
+  config: Pick<DeployConfig, 'projectUuid' | 'environmentName' | 'state'>,
   log: (message: string) => void
 ): Promise<ExistingResources> {
   const existing: ExistingResources = {
@@ -109,6 +217,13 @@ async function fetchExistingResources(
     applications: new Map(),
     services: new Map(),
   };
+  // Every UUID Coolify knows about, with whether it may be in the target project and
+  // environment, to validate state entries
+  const known = {
+    databases: new Map<string, boolean>(),
+    applications: new Map<string, boolean>(),
+    services: new Map<string, boolean>(),
+  };
 
   log('Fetching existing resources...');
 
@@ -116,6 +231,7 @@ async function fetchExistingResources(
   const dbResponse = await client.listDatabases();
   if (dbResponse.success && dbResponse.data) {
     for (const db of dbResponse.data) {
+      known.databases.set(db.uuid, !belongsElsewhere(db, config));
       if (matchesProjectAndEnvironment(db, config.projectUuid, config.environmentName)) {
         existing.databases.set(db.name, db.uuid);
       }
@@ -126,6 +242,7 @@ async function fetchExistingResources(
   const appResponse = await client.listApplications();
   if (appResponse.success && appResponse.data) {
     for (const app of appResponse.data) {
+      known.applications.set(app.uuid, !belongsElsewhere(app, config));
       if (matchesProjectAndEnvironment(app, config.projectUuid, config.environmentName)) {
         existing.applications.set(app.name, app.uuid);
       }
@@ -136,12 +253,44 @@ async function fetchExistingResources(
   const svcResponse = await client.listServices();
   if (svcResponse.success && svcResponse.data) {
     for (const svc of svcResponse.data) {
+      known.services.set(svc.uuid, !belongsElsewhere(svc, config));
       if (matchesProjectAndEnvironment(svc, config.projectUuid, config.environmentName)) {
         existing.services.set(svc.name, svc.uuid);
       }
     }
   }
 
+  let state = config.state;
+  if (state?.projectUuid && state.projectUuid !== config.projectUuid) {
+    log(`  ⚠ State was recorded for project ${state.projectUuid}, ignoring it`);
+    state = undefined;
+  }
+
+  for (const [name, entry] of Object.entries(state?.resources ?? {})) {
+    const kind = STATE_KINDS[entry.type];
+    if (!known[kind].has(entry.uuid)) {
+      log(
+        `  ⚠ State entry "${name}" points to a missing ${entry.type} (uuid: ${entry.uuid}), ignoring it`
+      );
+      continue;
+    }
+    if (!known[kind].get(entry.uuid)) {
+      log(
+        `  ⚠ State entry "${name}" points to a ${entry.type} of another project or environment ` +
+          `(uuid: ${entry.uuid}), ignoring it`
+      );
+      continue;
+    }
+
+    // The resource may have been renamed in Coolify: drop its name match
+    for (const [existingName, uuid] of existing[kind]) {
+      if (uuid === entry.uuid) {
+        existing[kind].delete(existingName);
+      }
+    }
+    existing[kind].set(name, entry.uuid);
+  }
+
   log(`  Found ${existing.databases.size} databases, ${existing.applications.size} applications, ${existing.services.size} services in ${config.environmentName}`);
 
   return existing;
@@ -157,218 +306,366 @@ export async function deployToCoolify(
   options: {
     dryRun?: boolean;
     onProgress?: (message: string) => void;
+    wait?: WaitOptions; // Deploy resources after creation and wait for each to finish
+    concurrency?: number; // Independent resources created in parallel (default: 1)
   } = {}
 ): Promise<DeploymentSummary> {
-  const results: DeployResult[] = [];
   const log = options.onProgress || console.log;
 
+  // Resources created with instant_deploy start right away, so with --instant-deploy the
+  // WaitFor targets are only healthy before their dependents start when deployments are
+  // waited for. Without either flag, resources are only created, in dependency order.
+  let wait = options.wait;
+  if (!wait && config.instantDeploy && getWaitForTargets(buildDependencyGraph(app)).size > 0) {
+    log('WaitFor dependencies found: deployments are started in order and waited for');
+    wait = {};
+  }
+
+  // Waited deployments are triggered explicitly once everything exists
+  if (wait) {
+    config = { ...config, instantDeploy: false };
+  }
+
+  // Build the plan first, so invalid mappings and dependency cycles fail before any API call
+  const plan = buildDeploymentPlan(app, config);
+  const nodes = plan.resources;
+  for (const mapping of plan.mappings) {
+    log(`Mapping ${mapping.resourceType} ${mapping.name}: ${mapping.from} → ${mapping.to}`);
+  }
+
   // Always fetch existing resources to detect duplicates (unless dry-run)
   let existing: ExistingResources | null = null;
   if (!options.dryRun) {
     existing = await fetchExistingResources(client, config, log);
   }
 
-  // Deploy databases first
-  for (const db of app.databases) {
-    if (options.dryRun) {
-      log(`[DRY RUN] Would create database: ${db.name} (${db.type})`);
-      results.push({
-        success: true,
-        resourceType: 'database',
-        name: db.name,
-        uuid: 'dry-run-uuid',
-      });
-      continue;
-    }
+  // Resources created or reused in this run, for WithReference injection
+  const deployed = createDeployedResources();
+
+  // Deploy each resource after the resources it references or waits for
+  const results = await deployNodesConcurrently(
+    nodes,
+    Math.max(1, Math.floor(options.concurrency ?? 1)),
+    log,
+    (node, nodeLog) =>
+      deployNode(client, plan.app, node, config, {
+        existing,
+        deployed,
+        log: nodeLog,
+        dryRun: options.dryRun,
+      }),
+    // No point creating more resources once a rollback is due
+    { stopOnFailure: config.rollbackOnFailure && !options.dryRun }
+  );
+
+  if (wait && !(config.rollbackOnFailure && results.some((r) => !r.success))) {
+    await runDeployments(client, results, wait, log, {
+      dryRun: options.dryRun,
+      nodes,
+    });
+  }
 
-    // Check if database already exists
-    const existingUuid = existing?.databases.get(db.name);
-    if (existingUuid) {
-      if (config.skipExisting) {
-        log(`  ⊘ Skipped database "${db.name}" (already exists)`);
-        results.push({
-          success: true,
-          resourceType: 'database',
-          name: db.name,
-          uuid: existingUuid,
-          skipped: true,
-        });
-        continue;
-      } else {
-        log(`  ✗ Database "${db.name}" already exists (use --skip-existing to skip)`);
-        results.push({
-          success: false,
-          resourceType: 'database',
-          name: db.name,
-          error: `Database "${db.name}" already exists`,
-        });
-        continue;
-      }
+  for (const mapping of plan.mappings) {
+    const result = results.find(
+      (r) => r.name === mapping.name && r.resourceType === mapping.resourceType
+    );
+    if (result) {
+      result.mapping = { from: mapping.from, to: mapping.to };
     }
+  }
 
-    log(`Creating database: ${db.name} (${db.type})...`);
-    const result = await deployDatabase(client, db, config);
-    results.push(result);
-
-    if (result.success) {
-      log(`  ✓ Created database ${db.name} (uuid: ${result.uuid})`);
-    } else {
-      log(`  ✗ Failed to create database ${db.name}: ${result.error}`);
-    }
+  let rollback: DestroySummary | undefined;
+  if (config.rollbackOnFailure && !options.dryRun && results.some(hasFailed)) {
+    rollback = await rollbackCreatedResources(client, results, config, log);
   }
 
-  // Deploy storage services
-  for (const storage of app.storage) {
-    if (options.dryRun) {
-      log(`[DRY RUN] Would create storage service: ${storage.name} (${storage.type})`);
-      results.push({
-        success: true,
-        resourceType: 'service',
-        name: storage.name,
-        uuid: 'dry-run-uuid',
-      });
-      continue;
-    }
+  const successful = results.filter((r) => r.success && !r.skipped).length;
+  const failed = results.filter((r) => !r.success).length;
+  const skipped = results.filter((r) => r.skipped).length;
+  const updated = results.filter((r) => r.updated).length;
 
-    // Check if storage service already exists
-    const existingUuid = existing?.services.get(storage.name);
-    if (existingUuid) {
-      if (config.skipExisting) {
-        log(`  ⊘ Skipped storage service "${storage.name}" (already exists)`);
-        results.push({
-          success: true,
-          resourceType: 'service',
-          name: storage.name,
-          uuid: existingUuid,
-          skipped: true,
-        });
-        continue;
-      } else {
-        log(`  ✗ Storage service "${storage.name}" already exists (use --skip-existing to skip)`);
-        results.push({
-          success: false,
-          resourceType: 'service',
-          name: storage.name,
-          error: `Storage service "${storage.name}" already exists`,
-        });
-        continue;
-      }
-    }
+  return { results, successful, failed, skipped, updated, rollback };
+}
 
-    log(`Creating storage service: ${storage.name} (${storage.type})...`);
-    const result = await deployService(client, storage, config);
-    results.push(result);
+function hasFailed(result: DeployResult): boolean {
+  return (
+    !result.success || (result.deployment !== undefined && isFailedDeployment(result.deployment))
+  );
+}
 
-    if (result.success) {
-      log(`  ✓ Created storage service ${storage.name} (uuid: ${result.uuid})`);
-    } else {
-      log(`  ✗ Failed to create storage service ${storage.name}: ${result.error}`);
-    }
+/**
+ * Delete the resources created by this run, dependents first.
+ * Reused and updated resources existed before the run and are left in place.
+ */
+async function rollbackCreatedResources(
+  client: CoolifyApiClient,
+  results: DeployResult[],
+  config: DeployConfig,
+  log: (message: string) => void
+): Promise<DestroySummary> {
+  const created = results.filter((r) => r.success && r.uuid && !r.skipped && !r.updated).reverse();
+  const targets: DestroyTarget[] = created.map((r) => ({
+    resourceType: r.resourceType,
+    name: r.name,
+    uuid: r.uuid!,
+  }));
+
+  log(`\nRolling back ${targets.length} resource(s) created by this run...`);
+  const rollback = await destroyFromCoolify(
+    client,
+    targets,
+    // The volumes of resources created by this run hold no data worth keeping
+    {
+      projectUuid: config.projectUuid,
+      environmentName: config.environmentName,
+      deleteVolumes: true,
+    },
+    { onProgress: log }
+  );
+
+  for (const result of created) {
+    result.rolledBack = rollback.results.some((r) => r.uuid === result.uuid && r.success);
   }
 
-  // Deploy other services
-  for (const service of app.services) {
-    if (options.dryRun) {
-      log(`[DRY RUN] Would create service: ${service.name} (${service.type})`);
-      results.push({
-        success: true,
-        resourceType: 'service',
-        name: service.name,
-        uuid: 'dry-run-uuid',
-      });
-      continue;
-    }
+  return rollback;
+}
 
-    // Check if service already exists
-    const existingUuid = existing?.services.get(service.name);
-    if (existingUuid) {
-      if (config.skipExisting) {
-        log(`  ⊘ Skipped service "${service.name}" (already exists)`);
-        results.push({
-          success: true,
-          resourceType: 'service',
-          name: service.name,
-          uuid: existingUuid,
-          skipped: true,
-        });
-        continue;
-      } else {
-        log(`  ✗ Service "${service.name}" already exists (use --skip-existing to skip)`);
-        results.push({
-          success: false,
-          resourceType: 'service',
-          name: service.name,
-          error: `Service "${service.name}" already exists`,
-        });
-        continue;
+/**
+ * Run a deployment over the graph with at most `concurrency` resources in flight.
+ * A resource starts once its dependencies are done. In parallel runs, progress lines
+ * are buffered per resource and printed when it completes so they do not interleave.
+ * Results keep the order of the nodes regardless of completion order.
+ * With stopOnFailure, no resource is started after a failure and the results only
+ * cover the resources that were attempted.
+ */
+function deployNodesConcurrently(
+  nodes: PlannedResource[],
+  concurrency: number,
+  log: (message: string) => void,
+  deploy: (node: PlannedResource, log: (message: string) => void) => Promise<DeployResult>,
+  options: { stopOnFailure?: boolean } = {}
+): Promise<DeployResult[]> {
+  const results: DeployResult[] = new Array(nodes.length);
+  const ids = new Set(nodes.map((node) => node.id));
+  const pending = new Set(nodes.keys());
+  const done = new Set<string>();
+  let running = 0;
+  let aborted = false;
+  let stopped = false;
+
+  return new Promise((resolvePromise, rejectPromise) => {
+    const schedule = (): void => {
+      if (aborted) return;
+      if (done.size === nodes.length || (stopped && running === 0)) {
+        resolvePromise(results.filter((result) => result !== undefined));
+        return;
       }
-    }
+      if (stopped) return;
+
+      for (const index of pending) {
+        if (running >= concurrency) break;
+
+        const node = nodes[index];
+        if (!node.dependsOn.every((dependency) => done.has(dependency) || !ids.has(dependency))) {
+          continue;
+        }
+
+        pending.delete(index);
+        running++;
+
+        const lines: string[] = [];
+        const nodeLog = concurrency > 1 ? (message: string) => lines.push(message) : log;
+
+        deploy(node, nodeLog).then(
+          (result) => {
+            lines.forEach((line) => log(line));
+            results[index] = result;
+            done.add(node.id);
+            running--;
+            if (options.stopOnFailure && !result.success) {
+              stopped = true;
+            }
+            schedule();
+          },
+          (error: unknown) => {
+            lines.forEach((line) => log(line));
+            aborted = true;
+            rejectPromise(error);
+          }
+        );
+      }
+    };
 
-    log(`Creating service: ${service.name} (${service.type})...`);
-    const result = await deployService(client, service, config);
-    results.push(result);
+    schedule();
+  });
+}
 
-    if (result.success) {
-      log(`  ✓ Created service ${service.name} (uuid: ${result.uuid})`);
-    } else {
-      log(`  ✗ Failed to create service ${service.name}: ${result.error}`);
-    }
+/**
+ * Log labels of each resource kind
+ */
+const KIND_LABELS: Record<ResourceKind, string> = {
+  database: 'database',
+  sqlserver: 'SQL Server',
+  storage: 'storage service',
+  service: 'service',
+  application: 'application',
+};
+
+/**
+ * Create, update or skip a single resource, depending on whether it already exists
+ */
+async function deployNode(
+  client: CoolifyApiClient,
+  app: AspireApp,
+  node: PlannedResource,
+  config: DeployConfig,
+  context: {
+    existing: ExistingResources | null;
+    deployed: DeployedResources;
+    log: (message: string) => void;
+    dryRun?: boolean;
+  }
+): Promise<DeployResult> {
+  const { existing, deployed, log } = context;
+  const label = KIND_LABELS[node.kind];
+  const description =
+    node.kind === 'application' || node.kind === 'sqlserver'
+      ? node.name
+      : `${node.name} (${node.resource.type})`;
+  const resourceType =
+    node.kind === 'database' || node.kind === 'application' ? node.kind : 'service';
+
+  if (context.dryRun) {
+    log(`[DRY RUN] Would create ${label}: ${description}`);
+    return { success: true, resourceType, name: node.name, uuid: 'dry-run-uuid' };
   }
 
-  // Deploy applications last
-  for (const application of app.applications) {
-    if (options.dryRun) {
-      log(`[DRY RUN] Would create application: ${application.name}`);
-      results.push({
-        success: true,
-        resourceType: 'application',
-        name: application.name,
-        uuid: 'dry-run-uuid',
-      });
-      continue;
+  const recordDeployed = (uuid: string): void => {
+    if (node.kind === 'database') {
+      deployed.databases.set(node.name, uuid);
+    } else if (node.kind === 'application') {
+      deployed.applications.set(node.name, uuid);
+    } else if (node.kind === 'sqlserver') {
+      deployed.sqlServers.set(node.name, uuid);
     }
+  };
 
-    // Check if application already exists
-    const existingUuid = existing?.applications.get(application.name);
-    if (existingUuid) {
-      if (config.skipExisting) {
-        log(`  ⊘ Skipped application "${application.name}" (already exists)`);
-        results.push({
-          success: true,
-          resourceType: 'application',
-          name: application.name,
-          uuid: existingUuid,
-          skipped: true,
-        });
-        continue;
-      } else {
-        log(`  ✗ Application "${application.name}" already exists (use --skip-existing to skip)`);
-        results.push({
-          success: false,
-          resourceType: 'application',
-          name: application.name,
-          error: `Application "${application.name}" already exists`,
-        });
-        continue;
+  // Check if the resource already exists
+  const existingUuid =
+    node.kind === 'database'
+      ? existing?.databases.get(node.name)
+      : node.kind === 'application'
+        ? existing?.applications.get(node.name)
+        : existing?.services.get(node.name);
+
+  if (existingUuid) {
+    if (config.updateExisting) {
+      log(`Updating ${label}: ${node.name}...`);
+      const injected = await resolveReferenceEnvironment(client, app, node.name, deployed);
+      // The state records a hash of the payload last sent: when the model did not change
+      // the settings since, they are not compared again. Environments are still synced.
+      const recorded = config.state?.resources[node.name];
+      const settingsUnchanged =
+        recorded?.uuid === existingUuid &&
+        recorded.payloadHash !== undefined &&
+        recorded.payloadHash === hashPlannedResource(node);
+      let result: DeployResult;
+      switch (node.kind) {
+        case 'database':
+          result = !node.request
+            ? unplanned(node)
+            : settingsUnchanged
+              ? { success: true, resourceType, name: node.name, uuid: existingUuid, skipped: true }
+              : await updateDatabase(client, node.resource, existingUuid, node.request.payload);
+          break;
+        case 'sqlserver':
+          result = await updateSqlServer(client, node.resource, existingUuid);
+          break;
+        case 'storage':
+        case 'service':
+          result = node.request
+            ? await updateService(client, node.resource, existingUuid, node.request, injected, {
+                settingsUnchanged,
+              })
+            : unplanned(node);
+          break;
+        case 'application':
+          result = node.request
+            ? await updateApplication(client, node.resource, existingUuid, node.request, injected, {
+                settingsUnchanged,
+              })
+            : unplanned(node);
+          break;
       }
+      if (result.success) {
+        recordDeployed(existingUuid);
+      }
+      logUpdate(result, log);
+      return result;
     }
 
-    log(`Creating application: ${application.name}...`);
-    const result = await deployApplication(client, application, config);
-    results.push(result);
-
-    if (result.success) {
-      log(`  ✓ Created application ${application.name} (uuid: ${result.uuid})`);
-    } else {
-      log(`  ✗ Failed to create application ${application.name}: ${result.error}`);
+    const capitalized = label.charAt(0).toUpperCase() + label.slice(1);
+    if (config.skipExisting) {
+      log(`  ⊘ Skipped ${label} "${node.name}" (already exists)`);
+      recordDeployed(existingUuid);
+      return { success: true, resourceType, name: node.name, uuid: existingUuid, skipped: true };
     }
+
+    log(
+      `  ✗ ${capitalized} "${node.name}" already exists (use --skip-existing to skip or --update to update)`
+    );
+    return {
+      success: false,
+      resourceType,
+      name: node.name,
+      error: `${capitalized} "${node.name}" already exists`,
+    };
   }
 
-  const successful = results.filter((r) => r.success && !r.skipped).length;
-  const failed = results.filter((r) => !r.success).length;
-  const skipped = results.filter((r) => r.skipped).length;
+  log(`Creating ${label}: ${description}...`);
+  const injected = await resolveReferenceEnvironment(client, app, node.name, deployed);
+  let result: DeployResult;
+  switch (node.kind) {
+    case 'database':
+      result = node.request
+        ? await deployDatabase(client, node.resource, node.request)
+        : unplanned(node);
+      break;
+    case 'sqlserver':
+      result = node.request
+        ? await deploySqlServer(client, node.resource, node.request)
+        : unplanned(node);
+      break;
+    case 'storage':
+    case 'service':
+      result = node.request
+        ? await deployService(client, node.resource, node.request, injected)
+        : unplanned(node);
+      break;
+    case 'application':
+      result = node.request
+        ? await deployApplication(client, node.resource, node.request, injected)
+        : unplanned(node);
+      break;
+  }
+
+  if (result.success) {
+    recordDeployed(result.uuid!);
+    log(`  ✓ Created ${label} ${node.name} (uuid: ${result.uuid})`);
+    logWarnings(result, log);
+  } else {
+    log(`  ✗ Failed to create ${label} ${node.name}: ${result.error}`);
+    logFieldErrors(result, log);
+  }
 
-  return { results, successful, failed, skipped };
+  return result;
+}
+
+/**
+ * Failure of a resource the plan has no creation request for
+ */
+function unplanned(node: PlannedResource): DeployResult {
+  return { success: false, resourceType: node.resourceType, name: node.name, error: node.error };
 }
 
 /**
@@ -377,76 +674,45 @@ export async function deployToCoolify(
 async function deployDatabase(
   client: CoolifyApiClient,
   db: Database,
-  config: DeployConfig
+  creation: DatabaseCreation
 ): Promise<DeployResult> {
-  const basePayload = {
-    server_uuid: config.serverUuid,
-    project_uuid: config.projectUuid,
-    environment_name: config.environmentName,
-    name: db.name,
-    instant_deploy: config.instantDeploy ?? true,
-    is_public: db.hostPort ? true : undefined,
-    public_port: db.hostPort,
-  };
+  const { payload } = creation;
 
   try {
     let response;
 
-    switch (db.type) {
-      case 'postgres': {
-        const payload: PostgresDatabasePayload = {
-          ...basePayload,
-          image: db.image ? `${db.image}${db.imageTag ? `:${db.imageTag}` : ''}` : undefined,
-        };
+    switch (creation.databaseType) {
+      case 'postgresql':
         response = await client.createPostgresDatabase(payload);
         break;
-      }
 
-      case 'mysql': {
-        const payload: MysqlDatabasePayload = {
-          ...basePayload,
-          image: db.image ? `${db.image}${db.imageTag ? `:${db.imageTag}` : ''}` : undefined,
-        };
+      case 'mysql':
         response = await client.createMysqlDatabase(payload);
         break;
-      }
 
-      case 'mongodb': {
-        const payload: MongoDbDatabasePayload = {
-          ...basePayload,
-          image: db.image ? `${db.image}${db.imageTag ? `:${db.imageTag}` : ''}` : undefined,
-        };
+      case 'mariadb':
+        response = await client.createMariaDbDatabase(payload);
+        break;
+
+      case 'mongodb':
         response = await client.createMongoDatabase(payload);
         break;
-      }
 
-      case 'redis': {
-        const payload: RedisDatabasePayload = {
-          ...basePayload,
-          image: db.image ? `${db.image}${db.imageTag ? `:${db.imageTag}` : ''}` : undefined,
-        };
+      case 'redis':
         response = await client.createRedisDatabase(payload);
         break;
-      }
 
-      case 'sqlserver': {
-        // SQL Server not natively supported, try PostgreSQL as fallback
-        console.warn(`  Warning: SQL Server not supported, using PostgreSQL as fallback`);
-        const payload: PostgresDatabasePayload = {
-          ...basePayload,
-          name: db.name,
-        };
-        response = await client.createPostgresDatabase(payload);
+      case 'keydb':
+        response = await client.createKeyDbDatabase(payload);
         break;
-      }
 
-      default:
-        return {
-          success: false,
-          resourceType: 'database',
-          name: db.name,
-          error: `Unsupported database type: ${db.type}`,
-        };
+      case 'dragonfly':
+        response = await client.createDragonflyDatabase(payload);
+        break;
+
+      case 'clickhouse':
+        response = await client.createClickhouseDatabase(payload);
+        break;
     }
 
     if (response.success && response.data) {
@@ -462,7 +728,7 @@ async function deployDatabase(
       success: false,
       resourceType: 'database',
       name: db.name,
-      error: response.error || 'Unknown error',
+      ...failure(response),
     };
   } catch (err) {
     return {
@@ -480,42 +746,41 @@ async function deployDatabase(
 async function deployService(
   client: CoolifyApiClient,
   service: Service | StorageService,
-  config: DeployConfig
+  payload: ServicePayload,
+  injected: InjectedEnvironment = { variables: [], warnings: [] }
 ): Promise<DeployResult> {
-  // Map Aspire service types to Coolify service types
-  // Coolify uses full service template names (e.g., 'minio-community-edition')
-  const serviceTypeMap: Record<string, string> = {
-    rabbitmq: 'rabbitmq',
-    minio: 'minio-community-edition',
-    azurite: 'minio-community-edition', // Use MinIO as Azure Storage fallback
-    keycloak: 'keycloak',
-    seq: 'seq',
-    maildev: 'mailpit',
-    mailpit: 'mailpit',
-    kafka: 'kafka',
-    elasticsearch: 'elasticsearch',
-  };
-
-  const coolifyType = serviceTypeMap[service.type] || service.type;
-
-  const payload: ServicePayload = {
-    server_uuid: config.serverUuid,
-    project_uuid: config.projectUuid,
-    environment_name: config.environmentName,
-    type: coolifyType,
-    name: service.name,
-    instant_deploy: config.instantDeploy ?? true,
-  };
-
   try {
     const response = await client.createService(payload);
 
     if (response.success && response.data) {
+      // Custom containers carry their volumes in the compose document
+      const storage =
+        service.type === 'custom'
+          ? { attached: [], warnings: getBindMountWarnings(service.volumes) }
+          : await attachStorages(
+              client,
+              'service',
+              response.data.uuid,
+              service.name,
+              service.volumes
+            );
+      const warnings = [
+        ...injected.warnings,
+        ...(await pushEnvironment(
+          client,
+          'service',
+          response.data.uuid,
+          service.environment,
+          injected.variables
+        )),
+        ...storage.warnings,
+      ];
       return {
         success: true,
         resourceType: 'service',
         name: service.name,
         uuid: response.data.uuid,
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
     }
 
@@ -523,7 +788,7 @@ async function deployService(
       success: false,
       resourceType: 'service',
       name: service.name,
-      error: response.error || 'Unknown error',
+      ...failure(response),
     };
   } catch (err) {
     return {
@@ -535,102 +800,98 @@ async function deployService(
   }
 }
 
+/**
+ * Deploy a SQL Server instance to Coolify as a compose service
+ */
+async function deploySqlServer(
+  client: CoolifyApiClient,
+  instance: SqlServerInstance,
+  payload: ServicePayload
+): Promise<DeployResult> {
+  try {
+    const response = await client.createService(payload);
+
+    if (response.success && response.data) {
+      const warnings = await pushEnvironment(
+        client,
+        'service',
+        response.data.uuid,
+        instance.environment
+      );
+      return {
+        success: true,
+        resourceType: 'service',
+        name: instance.name,
+        uuid: response.data.uuid,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    }
+
+    return {
+      success: false,
+      resourceType: 'service',
+      name: instance.name,
+      ...failure(response),
+    };
+  } catch (err) {
+    return {
+      success: false,
+      resourceType: 'service',
+      name: instance.name,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
 /**
  * Deploy an application to Coolify
  */
 async function deployApplication(
   client: CoolifyApiClient,
   application: Application,
-  config: DeployConfig
+  creation: ApplicationCreation,
+  injected: InjectedEnvironment = { variables: [], warnings: [] }
 ): Promise<DeployResult> {
-  // Determine ports to expose
-  const ports = application.endpoints
-    .map((e) => e.targetPort || e.port)
-    .filter((p): p is number => p !== undefined);
-  const portsExposes = ports.length > 0 ? ports.join(',') : '80';
-
   try {
     let response;
 
-    // If GitHub config is provided, create a GitHub-based application
-    if (config.github?.repository) {
-      // Calculate base directory: combine github basePath with application sourcePath
-      let baseDirectory = config.github.basePath || '';
-      if (application.sourcePath) {
-        // Clean the source path (remove leading ./ or ../)
-        const cleanSourcePath = application.sourcePath.replace(/^\.\.?\//, '');
-        baseDirectory = baseDirectory
-          ? `${baseDirectory}/${cleanSourcePath}`
-          : cleanSourcePath;
-      }
-
-      // Map application buildPack to Coolify-compatible build_pack
-      const mapBuildPack = (bp?: string): 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose' => {
-        if (bp === 'dockerfile') return 'dockerfile';
-        if (bp === 'static') return 'static';
-        if (bp === 'dockercompose') return 'dockercompose';
-        return 'nixpacks'; // Default for 'nixpacks', 'node', and others
-      };
-
-      const buildPack = config.buildPack || mapBuildPack(application.buildPack);
-
-      // Use private GitHub App if appUuid is provided, otherwise use public repository
-      if (config.github.appUuid) {
-        const payload: PrivateGithubAppApplicationPayload = {
-          server_uuid: config.serverUuid,
-          project_uuid: config.projectUuid,
-          environment_name: config.environmentName,
-          github_app_uuid: config.github.appUuid,
-          git_repository: config.github.repository,
-          git_branch: config.github.branch || 'main',
-          build_pack: buildPack,
-          name: application.name,
-          ports_exposes: portsExposes,
-          base_directory: baseDirectory || undefined,
-          instant_deploy: config.instantDeploy ?? false,
-        };
-
-        response = await client.createPrivateGithubAppApplication(payload);
-      } else {
-        const payload: PublicRepositoryApplicationPayload = {
-          server_uuid: config.serverUuid,
-          project_uuid: config.projectUuid,
-          environment_name: config.environmentName,
-          git_repository: config.github.repository,
-          git_branch: config.github.branch || 'main',
-          build_pack: buildPack,
-          name: application.name,
-          ports_exposes: portsExposes,
-          base_directory: baseDirectory || undefined,
-          instant_deploy: config.instantDeploy ?? false,
-        };
-
-        response = await client.createPublicApplication(payload);
-      }
-    } else {
-      // Fallback to Docker image placeholder
-      const imageName = application.project || application.name;
-
-      const payload: DockerImageApplicationPayload = {
-        server_uuid: config.serverUuid,
-        project_uuid: config.projectUuid,
-        environment_name: config.environmentName,
-        docker_registry_image_name: imageName,
-        docker_registry_image_tag: 'latest',
-        name: application.name,
-        ports_exposes: portsExposes,
-        instant_deploy: config.instantDeploy ?? false,
-      };
-
-      response = await client.createDockerImageApplication(payload);
+    switch (creation.source) {
+      case 'private-github-app':
+        response = await client.createPrivateGithubAppApplication(creation.payload);
+        break;
+      case 'public':
+        response = await client.createPublicApplication(creation.payload);
+        break;
+      case 'dockerimage':
+        response = await client.createDockerImageApplication(creation.payload);
+        break;
     }
 
     if (response.success && response.data) {
+      const storage = await attachStorages(
+        client,
+        'application',
+        response.data.uuid,
+        application.name,
+        application.volumes ?? []
+      );
+      const warnings = [
+        ...injected.warnings,
+        ...(await pushEnvironment(
+          client,
+          'application',
+          response.data.uuid,
+          application.environment,
+          injected.variables
+        )),
+        ...storage.warnings,
+      ];
       return {
         success: true,
         resourceType: 'application',
         name: application.name,
         uuid: response.data.uuid,
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
     }
 
@@ -638,7 +899,7 @@ async function deployApplication(
       success: false,
       resourceType: 'application',
       name: application.name,
-      error: response.error || 'Unknown error',
+      ...failure(response),
     };
   } catch (err) {
     return {
@@ -649,3 +910,569 @@ async function deployApplication(
     };
   }
 }
+
+/**
+ * Deploy the created and updated resources one at a time, in creation (dependency) order,
+ * waiting for each deployment to finish before starting the next. WaitFor targets are
+ * also polled until healthy, as a finished deployment may still be starting.
+ */
+async function runDeployments(
+  client: CoolifyApiClient,
+  results: DeployResult[],
+  wait: WaitOptions,
+  log: (message: string) => void,
+  options: { dryRun?: boolean; nodes?: PlannedResource[] } = {}
+): Promise<void> {
+  const targets = results.filter((r) => r.success && !r.skipped && r.uuid);
+  if (targets.length === 0) {
+    return;
+  }
+
+  const nodes = options.nodes ?? [];
+  const waitForTargets = getWaitForTargets(nodes);
+  const failed = new Set<string>();
+
+  log('\nStarting deployments...');
+
+  for (const result of targets) {
+    if (options.dryRun) {
+      log(`[DRY RUN] Would deploy ${result.resourceType} ${result.name} and wait for it`);
+      continue;
+    }
+
+    // Do not start a resource whose dependencies did not come up
+    const node = nodes.find(
+      (n) => n.name === result.name && n.resourceType === result.resourceType
+    );
+    const failedDependency = nodes.find(
+      (n) => node?.dependsOn.includes(n.id) && failed.has(n.id)
+    )?.name;
+    if (failedDependency) {
+      failed.add(node!.id);
+      result.deployment = {
+        status: 'failed',
+        durationMs: 0,
+        error: `Dependency ${failedDependency} did not deploy`,
+      };
+      log(`  ✗ Not deploying ${result.name}: dependency ${failedDependency} did not deploy`);
+      continue;
+    }
+
+    log(`Deploying ${result.resourceType}: ${result.name}...`);
+    let deployment = await deployAndWait(client, result.uuid!, wait);
+    if (!isFailedDeployment(deployment) && node && waitForTargets.has(node.id)) {
+      log(`  Waiting for ${result.name} to be healthy...`);
+      deployment = await waitUntilHealthy(
+        client,
+        result.resourceType,
+        result.uuid!,
+        deployment,
+        wait
+      );
+    }
+    result.deployment = deployment;
+
+    const duration = `${(deployment.durationMs / 1000).toFixed(1)}s`;
+    if (isFailedDeployment(deployment)) {
+      if (node) {
+        failed.add(node.id);
+      }
+      log(
+        `  ✗ Deployment of ${result.name} ${deployment.status}: ${deployment.error} (${duration})`
+      );
+    } else if (deployment.status === 'started') {
+      log(`  ✓ Started ${result.resourceType} ${result.name}`);
+    } else {
+      log(`  ✓ Deployed ${result.resourceType} ${result.name} in ${duration}`);
+    }
+  }
+}
+
+/**
+ * Update an existing database whose settings drifted from the model
+ */
+async function updateDatabase(
+  client: CoolifyApiClient,
+  db: Database,
+  uuid: string,
+  payload: DatabasePayload
+): Promise<DeployResult> {
+  const base = { resourceType: 'database' as const, name: db.name, uuid };
+
+  try {
+    const details = await client.getDatabase(uuid);
+    if (!details.success || !details.data) {
+      return { success: false, ...base, ...failure(details) };
+    }
+
+    const drift = diffDatabaseSettings(details.data, payload);
+    if (drift.changes.length === 0) {
+      return { success: true, ...base, skipped: true };
+    }
+
+    const response = await client.updateDatabase(uuid, drift.patch);
+    if (!response.success) {
+      return { success: false, ...base, ...failure(response) };
+    }
+
+    return { success: true, ...base, updated: true, changes: drift.changes.map((c) => c.field) };
+  } catch (err) {
+    return { success: false, ...base, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Update the environment of an existing service. The service template itself cannot be
+ * changed in place, so a template change is only reported as a warning.
+ */
+async function updateService(
+  client: CoolifyApiClient,
+  service: Service | StorageService,
+  uuid: string,
+  payload: ServicePayload,
+  injected: InjectedEnvironment = { variables: [], warnings: [] },
+  options: { settingsUnchanged?: boolean } = {}
+): Promise<DeployResult> {
+  const base = { resourceType: 'service' as const, name: service.name, uuid };
+
+  try {
+    const warnings: string[] = [];
+    if (!options.settingsUnchanged) {
+      const details = await client.getService(uuid);
+      if (!details.success || !details.data) {
+        return { success: false, ...base, ...failure(details) };
+      }
+      for (const change of diffServiceSettings(details.data, payload)) {
+        warnings.push(
+          `Service type changed from ${change.current} to ${change.desired}; recreate the service to apply it`
+        );
+      }
+    }
+
+    const env = await syncEnvironment(client, 'service', uuid, service.environment, injected);
+    const storage =
+      service.type === 'custom'
+        ? { attached: [], warnings: getBindMountWarnings(service.volumes) }
+        : await attachStorages(client, 'service', uuid, service.name, service.volumes, {
+            existing: true,
+          });
+    warnings.push(...env.warnings, ...storage.warnings);
+    const changes = [...env.changes, ...storage.attached.map((path) => `storage.${path}`)];
+
+    return {
+      success: true,
+      ...base,
+      ...(changes.length > 0 ? { updated: true, changes } : { skipped: true }),
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  } catch (err) {
+    return { success: false, ...base, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Update the environment of an existing SQL Server instance. Databases added to the
+ * model are created by the init step on the next deployment of the service.
+ */
+async function updateSqlServer(
+  client: CoolifyApiClient,
+  instance: SqlServerInstance,
+  uuid: string
+): Promise<DeployResult> {
+  const base = { resourceType: 'service' as const, name: instance.name, uuid };
+
+  try {
+    const env = await syncEnvironment(client, 'service', uuid, instance.environment, {
+      variables: [],
+      warnings: [],
+    });
+
+    return {
+      success: true,
+      ...base,
+      ...(env.changes.length > 0 ? { updated: true, changes: env.changes } : { skipped: true }),
+      warnings: env.warnings.length > 0 ? env.warnings : undefined,
+    };
+  } catch (err) {
+    return { success: false, ...base, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Update an existing application whose settings or environment drifted from the model
+ */
+async function updateApplication(
+  client: CoolifyApiClient,
+  application: Application,
+  uuid: string,
+  creation: ApplicationCreation,
+  injected: InjectedEnvironment = { variables: [], warnings: [] },
+  options: { settingsUnchanged?: boolean } = {}
+): Promise<DeployResult> {
+  const base = { resourceType: 'application' as const, name: application.name, uuid };
+
+  try {
+    let settingsChanges: string[] = [];
+    if (!options.settingsUnchanged) {
+      const details = await client.getApplication(uuid);
+      if (!details.success || !details.data) {
+        return { success: false, ...base, ...failure(details) };
+      }
+
+      const drift = diffApplicationSettings(details.data, creation);
+      if (drift.changes.length > 0) {
+        const response = await client.updateApplication(uuid, drift.patch);
+        if (!response.success) {
+          return { success: false, ...base, ...failure(response) };
+        }
+      }
+      settingsChanges = drift.changes.map((c) => c.field);
+    }
+
+    const env = await syncEnvironment(
+      client,
+      'application',
+      uuid,
+      application.environment,
+      injected
+    );
+    const storage = await attachStorages(
+      client,
+      'application',
+      uuid,
+      application.name,
+      application.volumes ?? [],
+      { existing: true }
+    );
+    const changes = [
+      ...settingsChanges,
+      ...env.changes,
+      ...storage.attached.map((path) => `storage.${path}`),
+    ];
+    const warnings = [...env.warnings, ...storage.warnings];
+
+    return {
+      success: true,
+      ...base,
+      ...(changes.length > 0 ? { updated: true, changes } : { skipped: true }),
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  } catch (err) {
+    return { success: false, ...base, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Push the environment of an existing application or service when it drifted.
+ * Returns the changed env fields and the warnings of the push.
+ */
+async function syncEnvironment(
+  client: CoolifyApiClient,
+  target: 'application' | 'service',
+  uuid: string,
+  environment: EnvironmentVariable[],
+  injected: InjectedEnvironment
+): Promise<{ changes: string[]; warnings: string[] }> {
+  const current =
+    target === 'application'
+      ? await client.listApplicationEnvs(uuid)
+      : await client.listServiceEnvs(uuid);
+  if (!current.success) {
+    throw new Error(`Failed to read environment variables: ${current.error || 'Unknown error'}`);
+  }
+
+  const resolved = resolveEnvironment(environment);
+  const changes = diffEnvironment(
+    current.data ?? [],
+    getExpectedEnvironment(resolved, injected)
+  ).map((c) => c.field);
+
+  if (changes.length === 0) {
+    return {
+      changes,
+      warnings: [...injected.warnings, ...describeUnresolved(resolved.unresolved)],
+    };
+  }
+
+  const warnings = await pushEnvironment(client, target, uuid, environment, injected.variables);
+  return { changes, warnings: [...injected.warnings, ...warnings] };
+}
+
+/**
+ * The env variables an application or service should have in Coolify: the variables
+ * injected by its references, overridden by its own resolved variables
+ */
+export function getExpectedEnvironment(
+  resolved: ResolvedEnvironment,
+  injected: InjectedEnvironment
+): EnvironmentVariablePayload[] {
+  return mergeEnvironment(injected.variables, resolved.variables);
+}
+
+/**
+ * Attach the persistent volumes and bind mounts of an application or service.
+ * On existing resources, storages already mounted at the same path are left alone.
+ * Returns the attached mount paths and the warnings of skipped or failed storages.
+ */
+async function attachStorages(
+  client: CoolifyApiClient,
+  target: 'application' | 'service',
+  uuid: string,
+  resourceName: string,
+  volumes: Volume[],
+  options: { existing?: boolean } = {}
+): Promise<{ attached: string[]; warnings: string[] }> {
+  const { payloads, warnings } = buildPersistentStorages(uuid, resourceName, volumes);
+  if (payloads.length === 0) {
+    return { attached: [], warnings };
+  }
+
+  const mounted = new Set<string>();
+  if (options.existing) {
+    const current =
+      target === 'application'
+        ? await client.listApplicationStorages(uuid)
+        : await client.listServiceStorages(uuid);
+    if (!current.success) {
+      throw new Error(`Failed to read persistent storages: ${current.error || 'Unknown error'}`);
+    }
+    for (const storage of current.data?.persistent_storages ?? []) {
+      mounted.add(storage.mount_path);
+    }
+  }
+
+  const attached: string[] = [];
+  for (const payload of payloads) {
+    if (mounted.has(payload.mount_path)) {
+      continue;
+    }
+
+    const response =
+      target === 'application'
+        ? await client.createApplicationStorage(uuid, payload)
+        : await client.createServiceStorage(uuid, payload);
+    if (response.success) {
+      attached.push(payload.mount_path);
+    } else {
+      warnings.push(
+        `Failed to attach storage ${payload.mount_path}: ${response.error || 'Unknown error'}`
+      );
+    }
+  }
+
+  return { attached, warnings };
+}
+
+/**
+ * Push environment variables to a newly created application or service.
+ * Returns warnings for unresolved expression values and failed updates.
+ */
+async function pushEnvironment(
+  client: CoolifyApiClient,
+  target: 'application' | 'service',
+  uuid: string,
+  environment: EnvironmentVariable[],
+  injected: EnvironmentVariablePayload[] = []
+): Promise<string[]> {
+  const warnings: string[] = [];
+  const resolved = resolveEnvironment(environment);
+  // Explicit WithEnvironment values take precedence over injected ones
+  const variables = mergeEnvironment(injected, resolved.variables);
+
+  warnings.push(...describeUnresolved(resolved.unresolved));
+
+  if (variables.length === 0) {
+    return warnings;
+  }
+
+  const response =
+    target === 'application'
+      ? await client.updateApplicationEnvs(uuid, { data: variables })
+      : await client.updateServiceEnvs(uuid, { data: variables });
+
+  if (!response.success) {
+    warnings.push(`Failed to set environment variables: ${response.error || 'Unknown error'}`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Build the connection string of a deployed SQL Server instance. The SA password is
+ * generated by Coolify and read back once per instance.
+ */
+async function resolveSqlServerConnectionString(
+  client: CoolifyApiClient,
+  target: { instance: SqlServerInstance; database?: Database },
+  deployed: DeployedResources
+): Promise<{ connectionString?: string; warning?: string }> {
+  const uuid = deployed.sqlServers.get(target.instance.name);
+  if (!uuid) {
+    return { warning: `SQL Server ${target.instance.name} was not deployed` };
+  }
+
+  if (!deployed.sqlServerPasswords.has(uuid)) {
+    const response = await client.listServiceEnvs(uuid);
+    deployed.sqlServerPasswords.set(
+      uuid,
+      response.success
+        ? (response.data?.find((env) => env.key === SQL_SERVER_PASSWORD_ENV)?.value ?? undefined)
+        : undefined
+    );
+  }
+
+  const password = deployed.sqlServerPasswords.get(uuid);
+  if (!password) {
+    return { warning: `Could not read the SA password of SQL Server ${target.instance.name}` };
+  }
+
+  return {
+    connectionString: createSqlServerConnectionString(
+      getComposeHostname(target.instance.name, uuid),
+      password,
+      target.database?.name
+    ),
+  };
+}
+
+/**
+ * Build the env variables a resource receives from its references: connection strings
+ * for databases and service-discovery URLs for applications.
+ * Connection URLs are read back from Coolify once per database and cached.
+ */
+export async function resolveReferenceEnvironment(
+  client: CoolifyApiClient,
+  app: AspireApp,
+  resourceName: string,
+  deployed: DeployedResources
+): Promise<InjectedEnvironment> {
+  const injected: InjectedEnvironment = { variables: [], warnings: [] };
+
+  for (const reference of app.references) {
+    if (reference.from !== resourceName) {
+      continue;
+    }
+
+    const targetApp = app.applications.find((a) => a.name === reference.to);
+    if (targetApp) {
+      const uuid = deployed.applications.get(targetApp.name);
+      if (!uuid) {
+        injected.warnings.push(
+          `Referenced application ${reference.to} was not deployed, service discovery not set`
+        );
+        continue;
+      }
+      // Coolify containers are reachable on the internal network by their UUID
+      injected.variables.push(...createServiceDiscoveryEnvironment(targetApp, uuid));
+      continue;
+    }
+
+    // Managed outside Coolify: the value comes from the config or the environment
+    const external = findConnectionString(app, reference.to);
+    if (external) {
+      if (external.value === undefined) {
+        injected.warnings.push(`Connection string ${external.name} has no value, not set`);
+      } else {
+        injected.variables.push(...createConnectionStringEnvironment(reference, external.value));
+      }
+      continue;
+    }
+
+    if (!reference.connectionStringEnv) {
+      continue;
+    }
+
+    const sqlServer = findSqlServerInstance(app, reference.to);
+    if (sqlServer) {
+      const result = await resolveSqlServerConnectionString(client, sqlServer, deployed);
+      if (result.connectionString) {
+        injected.variables.push(
+          ...createConnectionStringEnvironment(reference, result.connectionString)
+        );
+      } else {
+        injected.warnings.push(`${result.warning}, connection string of ${reference.to} not set`);
+      }
+      continue;
+    }
+
+    const uuid = deployed.databases.get(reference.to);
+    if (!uuid) {
+      injected.warnings.push(
+        `Referenced database ${reference.to} was not deployed, connection string not set`
+      );
+      continue;
+    }
+
+    if (!deployed.connectionUrls.has(uuid)) {
+      const response = await client.getDatabase(uuid);
+      deployed.connectionUrls.set(
+        uuid,
+        response.success ? response.data?.internal_db_url : undefined
+      );
+    }
+
+    const url = deployed.connectionUrls.get(uuid);
+    if (!url) {
+      injected.warnings.push(`Could not read connection URL of database ${reference.to}`);
+      continue;
+    }
+
+    injected.variables.push(...createConnectionStringEnvironment(reference, url));
+  }
+
+  return injected;
+}
+
+/**
+ * Describe env variables whose expression could not be resolved
+ */
+function describeUnresolved(unresolved: EnvironmentVariable[]): string[] {
+  return unresolved.map((env) =>
+    env.parameter
+      ? `Unresolved environment variable ${env.key} (parameter ${env.parameter} has no value)`
+      : `Unresolved environment variable ${env.key} (expression: ${env.value})`
+  );
+}
+
+/**
+ * Log the outcome of updating an existing resource
+ */
+function logUpdate(result: DeployResult, log: (message: string) => void): void {
+  if (!result.success) {
+    log(`  ✗ Failed to update ${result.resourceType} ${result.name}: ${result.error}`);
+    logFieldErrors(result, log);
+    return;
+  }
+
+  if (result.updated) {
+    log(`  ↻ Updated ${result.resourceType} ${result.name} (${result.changes?.join(', ')})`);
+  } else {
+    log(`  ⊘ ${result.resourceType} ${result.name} is up to date`);
+  }
+  logWarnings(result, log);
+}
+
+/**
+ * Log the warnings attached to a deploy result
+ */
+function logWarnings(result: DeployResult, log: (message: string) => void): void {
+  for (const warning of result.warnings ?? []) {
+    log(`  ⚠ ${warning}`);
+  }
+}
+
+/**
+ * Log the payload fields Coolify rejected, if any
+ */
+function logFieldErrors(result: DeployResult, log: (message: string) => void): void {
+  for (const line of formatFieldErrors(result.apiError)) {
+    log(`      - ${line}`);
+  }
+}
+
+/**
+ * Error fields of a result for a failed API response
+ */
+function failure(response: CoolifyApiResponse<unknown>): Pick<DeployResult, 'error' | 'apiError'> {
+  return { error: response.error || 'Unknown error', apiError: response.apiError };
+}
@@ -0,0 +1,133 @@
+/**
+ * Deployments - Triggers Coolify deployments and waits for them to finish
+ */
+
+import type { CoolifyApiClient } from './coolify.js';
+
+export type DeploymentOutcome = 'finished' | 'failed' | 'cancelled' | 'timeout' | 'started';
+
+export interface DeploymentStatus {
+  status: DeploymentOutcome;
+  deploymentUuid?: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface WaitOptions {
+  timeoutMs?: number; // Per deployment
+  pollIntervalMs?: number;
+}
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 15 * 60 * 1000;
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Start a deployment of a resource and poll it until it finishes, fails or times out.
+ * Databases and services start without a queued build: they are reported as "started".
+ */
+export async function deployAndWait(
+  client: CoolifyApiClient,
+  uuid: string,
+  options: WaitOptions = {}
+): Promise<DeploymentStatus> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const startedAt = Date.now();
+  const elapsed = () => Date.now() - startedAt;
+
+  const trigger = await client.triggerDeploy(uuid);
+  if (!trigger.success) {
+    return { status: 'failed', durationMs: elapsed(), error: trigger.error || 'Unknown error' };
+  }
+
+  const deployments = trigger.data?.deployments ?? [];
+  const deploymentUuid = (deployments.find((d) => d.resource_uuid === uuid) ?? deployments[0])
+    ?.deployment_uuid;
+  if (!deploymentUuid) {
+    return { status: 'started', durationMs: elapsed() };
+  }
+
+  let lastError: string | undefined;
+  for (;;) {
+    const response = await client.getDeployment(deploymentUuid);
+
+    if (response.success && response.data) {
+      switch (response.data.status) {
+        case 'finished':
+          return { status: 'finished', deploymentUuid, durationMs: elapsed() };
+        case 'failed':
+          return { status: 'failed', deploymentUuid, durationMs: elapsed(), error: 'Build failed' };
+        case 'cancelled-by-user':
+          return {
+            status: 'cancelled',
+            deploymentUuid,
+            durationMs: elapsed(),
+            error: 'Deployment was cancelled',
+          };
+      }
+    } else {
+      // Keep polling through transient errors until the timeout
+      lastError = response.error;
+    }
+
+    if (elapsed() >= timeoutMs) {
+      return {
+        status: 'timeout',
+        deploymentUuid,
+        durationMs: elapsed(),
+        error: `Deployment did not finish within ${Math.round(timeoutMs / 1000)}s${lastError ? ` (last error: ${lastError})` : ''}`,
+      };
+    }
+
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, pollIntervalMs));
+  }
+}
+
+/**
+ * Poll a started resource until Coolify reports it running and not unhealthy.
+ * Used for WaitFor targets, which must be up before their dependents are deployed.
+ */
+export async function waitUntilHealthy(
+  client: CoolifyApiClient,
+  resourceType: 'database' | 'service' | 'application',
+  uuid: string,
+  started: DeploymentStatus,
+  options: WaitOptions = {}
+): Promise<DeploymentStatus> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const startedAt = Date.now() - started.durationMs;
+  const elapsed = () => Date.now() - startedAt;
+
+  let lastStatus: string | undefined;
+  for (;;) {
+    const response =
+      resourceType === 'database'
+        ? await client.getDatabase(uuid)
+        : resourceType === 'application'
+          ? await client.getApplication(uuid)
+          : await client.getService(uuid);
+    lastStatus = response.data?.status ?? lastStatus;
+
+    if (lastStatus?.startsWith('running') && !lastStatus.includes('unhealthy')) {
+      return { status: 'finished', durationMs: elapsed() };
+    }
+
+    if (elapsed() >= timeoutMs) {
+      return {
+        status: 'timeout',
+        durationMs: elapsed(),
+        error: `Not healthy within ${Math.round(timeoutMs / 1000)}s (status: ${lastStatus ?? 'unknown'})`,
+      };
+    }
+
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, pollIntervalMs));
+  }
+}
+
+/**
+ * Whether a deployment ended in a state that needs attention
+ */
+export function isFailedDeployment(deployment: DeploymentStatus): boolean {
+  return ['failed', 'cancelled', 'timeout'].includes(deployment.status);
+}
@@ -0,0 +1,175 @@
+/**
+ * Destroyer - Removes the Coolify resources created for an Aspire application model
+ */
+
+import { getSqlServerInstances, type AspireApp } from '../models/aspire.js';
+import type { CoolifyApiClient, CoolifyApiResponse, DeleteResourceResponse } from './coolify.js';
+import { fetchExistingResources } from './deployer.js';
+import type { DeploymentState } from '../state/index.js';
+import { applyTypeMappings, type TypeMappings } from '../generators/coolify/mappings.js';
+
+export interface DestroyConfig {
+  projectUuid: string;
+  environmentName: string;
+  deleteVolumes?: boolean;
+  deleteProject?: boolean;
+  state?: DeploymentState; // Recorded resource UUIDs, preferred over name matching
+  mappings?: TypeMappings; // Same as the deploy, so mapped resources are found by their type
+}
+
+export interface DestroyTarget {
+  resourceType: 'database' | 'service' | 'application';
+  name: string;
+  uuid: string;
+}
+
+export interface DestroyResult {
+  success: boolean;
+  resourceType: 'database' | 'service' | 'application' | 'project';
+  name: string;
+  uuid: string;
+  error?: string;
+}
+
+export interface DestroySummary {
+  results: DestroyResult[];
+  successful: number;
+  failed: number;
+}
+
+/**
+ * Resolve the Coolify resources matching the Aspire model in the target project/environment.
+ * Targets are returned in deletion order: applications, then services, then databases.
+ */
+export async function findDestroyTargets(
+  client: CoolifyApiClient,
+  app: AspireApp,
+  config: DestroyConfig,
+  options: { onProgress?: (message: string) => void } = {}
+): Promise<DestroyTarget[]> {
+  const log = options.onProgress || console.log;
+  app = applyTypeMappings(app, config.mappings).app;
+  const existing = await fetchExistingResources(client, config, log);
+  const targets: DestroyTarget[] = [];
+
+  for (const application of app.applications) {
+    const uuid = existing.applications.get(application.name);
+    if (uuid) {
+      targets.push({ resourceType: 'application', name: application.name, uuid });
+    }
+  }
+
+  for (const service of [...app.services, ...app.storage, ...getSqlServerInstances(app)]) {
+    const uuid = existing.services.get(service.name);
+    if (uuid) {
+      targets.push({ resourceType: 'service', name: service.name, uuid });
+    }
+  }
+
+  for (const db of app.databases) {
+    const uuid = existing.databases.get(db.name);
+    if (uuid) {
+      targets.push({ resourceType: 'database', name: db.name, uuid });
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Delete the given targets from Coolify, then the project if requested
+ */
+export async function destroyFromCoolify(
+  client: CoolifyApiClient,
+  targets: DestroyTarget[],
+  config: DestroyConfig,
+  options: {
+    dryRun?: boolean;
+    onProgress?: (message: string) => void;
+  } = {}
+): Promise<DestroySummary> {
+  const results: DestroyResult[] = [];
+  const log = options.onProgress || console.log;
+
+  const deleteOptions = {
+    deleteConfigurations: true,
+    deleteVolumes: config.deleteVolumes ?? false,
+    dockerCleanup: true,
+    deleteConnectedNetworks: true,
+  };
+
+  for (const target of targets) {
+    if (options.dryRun) {
+      log(`[DRY RUN] Would delete ${target.resourceType}: ${target.name} (uuid: ${target.uuid})`);
+      results.push({ success: true, ...target });
+      continue;
+    }
+
+    log(`Deleting ${target.resourceType}: ${target.name}...`);
+
+    let response: CoolifyApiResponse<DeleteResourceResponse>;
+    try {
+      switch (target.resourceType) {
+        case 'application':
+          response = await client.deleteApplication(target.uuid, deleteOptions);
+          break;
+        case 'service':
+          response = await client.deleteService(target.uuid, deleteOptions);
+          break;
+        case 'database':
+          response = await client.deleteDatabase(target.uuid, deleteOptions);
+          break;
+      }
+    } catch (err) {
+      response = { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    if (response.success) {
+      log(`  ✓ Deleted ${target.resourceType} ${target.name}`);
+      results.push({ success: true, ...target });
+    } else {
+      const error = response.error || 'Unknown error';
+      log(`  ✗ Failed to delete ${target.resourceType} ${target.name}: ${error}`);
+      results.push({ success: false, ...target, error });
+    }
+  }
+
+  if (config.deleteProject) {
+    results.push(await destroyProject(client, config.projectUuid, log, options.dryRun));
+  }
+
+  const successful = results.filter((r) => r.success).length;
+  const failed = results.filter((r) => !r.success).length;
+
+  return { results, successful, failed };
+}
+
+async function destroyProject(
+  client: CoolifyApiClient,
+  projectUuid: string,
+  log: (message: string) => void,
+  dryRun?: boolean
+): Promise<DestroyResult> {
+  const result: DestroyResult = {
+    success: true,
+    resourceType: 'project',
+    name: projectUuid,
+    uuid: projectUuid,
+  };
+
+  if (dryRun) {
+    log(`[DRY RUN] Would delete project: ${projectUuid}`);
+    return result;
+  }
+
+  log(`Deleting project: ${projectUuid}...`);
+  const response = await client.deleteProject(projectUuid);
+  if (!response.success) {
+    const error = response.error || 'Unknown error';
+    log(`  ✗ Failed to delete project: ${error}`);
+    return { ...result, success: false, error };
+  }
+
+  log(`  ✓ Deleted project ${projectUuid}`);
+  return result;
+}
@@ -0,0 +1,228 @@
+/**
+ * Diff - Compares an Aspire application model with the live Coolify resources (plan)
+ */
+
+import type { AspireApp } from '../models/aspire.js';
+import type { CoolifyApiClient } from './coolify.js';
+import {
+  createDeployedResources,
+  fetchExistingResources,
+  getExpectedEnvironment,
+  resolveReferenceEnvironment,
+  type DeployConfig,
+  type ExistingResources,
+} from './deployer.js';
+import { resolveEnvironment } from './environment.js';
+import { buildDeploymentPlan, type PlannedResource } from '../plan/index.js';
+import {
+  diffDatabaseSettings,
+  diffApplicationSettings,
+  diffServiceSettings,
+  diffEnvironment,
+  type FieldChange,
+} from './drift.js';
+
+export type ChangeAction = 'create' | 'update' | 'unchanged' | 'orphan';
+
+export interface ResourceChange {
+  action: ChangeAction;
+  resourceType: 'database' | 'service' | 'application';
+  name: string;
+  uuid?: string;
+  changes: FieldChange[];
+}
+
+export interface DeploymentDiff {
+  resources: ResourceChange[];
+  toCreate: number;
+  toUpdate: number;
+  unchanged: number;
+  orphaned: number;
+  hasChanges: boolean;
+}
+
+/**
+ * Compute what a deploy would change in the target project/environment.
+ * An empty config.projectUuid means the project does not exist yet: everything is created.
+ */
+export async function diffDeployment(
+  client: CoolifyApiClient,
+  app: AspireApp,
+  config: DeployConfig,
+  options: { onProgress?: (message: string) => void } = {}
+): Promise<DeploymentDiff> {
+  const log = options.onProgress || console.log;
+  const plan = buildDeploymentPlan(app, config);
+  const existing: ExistingResources = config.projectUuid
+    ? await fetchExistingResources(client, config, log)
+    : { databases: new Map(), applications: new Map(), services: new Map() };
+
+  const resources: ResourceChange[] = [];
+
+  // The environment deploy --update would write, references included
+  const deployed = createDeployedResources(existing);
+  const expectedEnvironment = async (resource: PlannedResource) =>
+    getExpectedEnvironment(
+      resolveEnvironment(resource.resource.environment),
+      await resolveReferenceEnvironment(client, plan.app, resource.name, deployed)
+    );
+
+  for (const resource of plan.resources) {
+    const { resourceType, name } = resource;
+    const uuid =
+      resourceType === 'database'
+        ? existing.databases.get(name)
+        : resourceType === 'application'
+          ? existing.applications.get(name)
+          : existing.services.get(name);
+    if (!uuid) {
+      resources.push(createChange(resourceType, name));
+      continue;
+    }
+
+    let changes: FieldChange[];
+    switch (resource.kind) {
+      case 'database': {
+        const details = await fetchDetails(client.getDatabase(uuid), resourceType, name);
+        changes = resource.request
+          ? diffDatabaseSettings(details, resource.request.payload).changes
+          : [];
+        break;
+      }
+      // SQL Server instances are compose services: only their environment can drift
+      case 'sqlserver': {
+        const envs = await fetchDetails(client.listServiceEnvs(uuid), resourceType, name);
+        changes = diffEnvironment(
+          envs,
+          resolveEnvironment(resource.resource.environment).variables
+        );
+        break;
+      }
+      case 'storage':
+      case 'service': {
+        const details = await fetchDetails(client.getService(uuid), resourceType, name);
+        const envs = await fetchDetails(client.listServiceEnvs(uuid), resourceType, name);
+        changes = [
+          ...(resource.request ? diffServiceSettings(details, resource.request) : []),
+          ...diffEnvironment(envs, await expectedEnvironment(resource)),
+        ];
+        break;
+      }
+      case 'application': {
+        const details = await fetchDetails(client.getApplication(uuid), resourceType, name);
+        const envs = await fetchDetails(client.listApplicationEnvs(uuid), resourceType, name);
+        changes = [
+          ...(resource.request ? diffApplicationSettings(details, resource.request).changes : []),
+          ...diffEnvironment(envs, await expectedEnvironment(resource)),
+        ];
+        break;
+      }
+    }
+
+    resources.push(toChange(resourceType, name, uuid, changes));
+  }
+
+  // Resources in the environment that the model no longer declares
+  const declaredNames = (resourceType: ResourceChange['resourceType']) =>
+    new Set(plan.resources.filter((r) => r.resourceType === resourceType).map((r) => r.name));
+  const declared = {
+    databases: declaredNames('database'),
+    services: declaredNames('service'),
+    applications: declaredNames('application'),
+  };
+  for (const [kind, resourceType] of [
+    ['databases', 'database'],
+    ['services', 'service'],
+    ['applications', 'application'],
+  ] as const) {
+    for (const [name, uuid] of existing[kind]) {
+      if (!declared[kind].has(name)) {
+        resources.push({ action: 'orphan', resourceType, name, uuid, changes: [] });
+      }
+    }
+  }
+
+  const count = (action: ChangeAction) => resources.filter((r) => r.action === action).length;
+  const toCreate = count('create');
+  const toUpdate = count('update');
+  const orphaned = count('orphan');
+
+  return {
+    resources,
+    toCreate,
+    toUpdate,
+    unchanged: count('unchanged'),
+    orphaned,
+    hasChanges: toCreate + toUpdate + orphaned > 0,
+  };
+}
+
+/**
+ * Format a deployment diff for terminal output
+ */
+export function formatDeploymentDiff(diff: DeploymentDiff): string {
+  const symbols: Record<ChangeAction, string> = {
+    create: '+',
+    update: '~',
+    unchanged: '=',
+    orphan: '-',
+  };
+  const labels: Record<ChangeAction, string> = {
+    create: 'will be created',
+    update: 'will be updated',
+    unchanged: 'unchanged',
+    orphan: 'orphaned (not declared in the AppHost)',
+  };
+
+  const lines: string[] = [];
+  for (const resource of diff.resources) {
+    lines.push(
+      `  ${symbols[resource.action]} ${resource.resourceType} ${resource.name}: ${labels[resource.action]}`
+    );
+    for (const change of resource.changes) {
+      lines.push(
+        `      ${change.field}: ${change.current ?? '(unset)'} → ${change.desired ?? '(unset)'}`
+      );
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    `Plan: ${diff.toCreate} to create, ${diff.toUpdate} to update, ${diff.unchanged} unchanged, ${diff.orphaned} orphaned.`
+  );
+
+  return lines.join('\n');
+}
+
+async function fetchDetails<T>(
+  request: Promise<{ success: boolean; data?: T; error?: string }>,
+  resourceType: string,
+  name: string
+): Promise<T> {
+  const response = await request;
+  if (!response.success || response.data === undefined) {
+    throw new Error(
+      `Failed to fetch ${resourceType} "${name}": ${response.error || 'Unknown error'}`
+    );
+  }
+  return response.data;
+}
+
+function createChange(resourceType: ResourceChange['resourceType'], name: string): ResourceChange {
+  return { action: 'create', resourceType, name, changes: [] };
+}
+
+function toChange(
+  resourceType: ResourceChange['resourceType'],
+  name: string,
+  uuid: string,
+  changes: FieldChange[]
+): ResourceChange {
+  return {
+    action: changes.length > 0 ? 'update' : 'unchanged',
+    resourceType,
+    name,
+    uuid,
+    changes,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Drift - Field-level comparison between live Coolify resources and the payloads deploy sends
+ */
+
+import type {
+  CoolifyApplication,
+  CoolifyDatabase,
+  CoolifyEnvironmentVariable,
+  CoolifyService,
+  DatabasePayload,
+  EnvironmentVariablePayload,
+  ServicePayload,
+  UpdateApplicationPayload,
+  UpdateDatabasePayload,
+} from './coolify.js';
+import type { ApplicationCreation } from '../plan/index.js';
+
+export interface FieldChange {
+  field: string;
+  current?: string;
+  desired?: string;
+}
+
+/**
+ * Drifted fields of a resource and the update payload that converges them
+ */
+export interface ResourceDrift<T> {
+  changes: FieldChange[];
+  patch: T;
+}
+
+/** Placeholder shown instead of environment variable values */
+const HIDDEN_VALUE = '(hidden)';
+
+/**
+ * Compare a database with its creation payload (image, public exposure)
+ */
+export function diffDatabaseSettings(
+  current: CoolifyDatabase,
+  desired: DatabasePayload
+): ResourceDrift<UpdateDatabasePayload> {
+  const drift: ResourceDrift<UpdateDatabasePayload> = { changes: [], patch: {} };
+
+  compareField(drift, 'image', current.image, desired.image);
+  compareField(drift, 'is_public', Boolean(current.is_public), Boolean(desired.is_public));
+  compareField(drift, 'public_port', current.public_port, desired.public_port);
+
+  return drift;
+}
+
+/**
+ * Compare an application with its creation payload (image or git source, exposed ports,
+ * domain)
+ */
+export function diffApplicationSettings(
+  current: CoolifyApplication,
+  desired: ApplicationCreation
+): ResourceDrift<UpdateApplicationPayload> {
+  const drift: ResourceDrift<UpdateApplicationPayload> = { changes: [], patch: {} };
+
+  if (desired.source === 'dockerimage') {
+    compareField(
+      drift,
+      'docker_registry_image_name',
+      current.docker_registry_image_name,
+      desired.payload.docker_registry_image_name
+    );
+    compareField(
+      drift,
+      'docker_registry_image_tag',
+      current.docker_registry_image_tag,
+      desired.payload.docker_registry_image_tag
+    );
+  } else {
+    compareField(drift, 'git_repository', current.git_repository, desired.payload.git_repository);
+    compareField(drift, 'git_branch', current.git_branch, desired.payload.git_branch);
+    compareField(drift, 'build_pack', current.build_pack, desired.payload.build_pack);
+    compareField(
+      drift,
+      'base_directory',
+      normalizeDirectory(current.base_directory),
+      normalizeDirectory(desired.payload.base_directory)
+    );
+  }
+  compareField(drift, 'ports_exposes', current.ports_exposes, desired.payload.ports_exposes);
+  compareField(drift, 'domains', current.fqdn, desired.payload.domains);
+
+  return drift;
+}
+
+/**
+ * Compare a service with its creation payload. The service template cannot be changed
+ * in place, so there is no update payload.
+ */
+export function diffServiceSettings(
+  current: CoolifyService,
+  desired: ServicePayload
+): FieldChange[] {
+  const drift: ResourceDrift<Record<string, unknown>> = { changes: [], patch: {} };
+
+  // Older Coolify versions do not report the template, and compose-based services have none
+  if (current.service_type && desired.type) {
+    compareField(drift, 'type', current.service_type, desired.type);
+  }
+
+  return drift.changes;
+}
+
+/**
+ * List env variables that are missing or differ in Coolify. Values are hidden since
+ * they may hold secrets; variables only present in Coolify are left alone.
+ */
+export function diffEnvironment(
+  current: CoolifyEnvironmentVariable[],
+  desired: EnvironmentVariablePayload[]
+): FieldChange[] {
+  const currentValues = new Map(
+    current.filter((env) => !env.is_preview).map((env) => [env.key, env.value ?? ''])
+  );
+  const changes: FieldChange[] = [];
+
+  for (const variable of desired) {
+    if (!currentValues.has(variable.key)) {
+      changes.push({ field: `env.${variable.key}`, desired: HIDDEN_VALUE });
+    } else if (currentValues.get(variable.key) !== variable.value) {
+      changes.push({ field: `env.${variable.key}`, current: HIDDEN_VALUE, desired: HIDDEN_VALUE });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Record a change (and its update value) when the desired value differs from the current one.
+ * Fields the model does not set (undefined) are left alone.
+ */
+function compareField<T, K extends keyof T & string>(
+  drift: ResourceDrift<T>,
+  field: K,
+  current: unknown,
+  desired: T[K] | undefined
+): void {
+  if (desired === undefined) {
+    return;
+  }
+
+  const currentValue = current === undefined || current === null ? undefined : String(current);
+  const desiredValue = String(desired);
+
+  if (currentValue !== desiredValue) {
+    drift.changes.push({ field, current: currentValue, desired: desiredValue });
+    drift.patch[field] = desired;
+  }
+}
+
+/**
+ * Normalize a base directory so "src/Api", "/src/Api" and "/src/Api/" compare equal
+ */
+function normalizeDirectory(directory: string | null | undefined): string | undefined {
+  if (directory === undefined || directory === null) {
+    return undefined;
+  }
+  return `/${directory.replace(/^\/+|\/+$/g, '')}`;
+}
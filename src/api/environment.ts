@@ -0,0 +1,184 @@
+/**
+ * Environment variable resolution - turns parsed WithEnvironment calls into Coolify env payloads
+ */
+
+import type { Application, AspireApp, EnvironmentVariable, Reference } from '../models/aspire.js';
+import { findConnectionString } from '../models/aspire.js';
+import type { EnvironmentVariablePayload } from './coolify.js';
+import { SQL_SERVER_PORT } from '../generators/coolify/compose.js';
+
+export interface ResolvedEnvironment {
+  variables: EnvironmentVariablePayload[];
+  unresolved: EnvironmentVariable[];
+}
+
+export interface EnvironmentResolutionContext {
+  /** Resolve a C# expression (e.g. a resource variable) to a literal value */
+  resolveExpression?: (expression: string) => string | undefined;
+}
+
+/**
+ * Resolve parsed environment variables into Coolify env payloads.
+ * Literal values are passed through; expression values are resolved when they are
+ * constants or known to the context, and reported as unresolved otherwise.
+ */
+export function resolveEnvironment(
+  environment: EnvironmentVariable[],
+  context: EnvironmentResolutionContext = {}
+): ResolvedEnvironment {
+  const variables: EnvironmentVariablePayload[] = [];
+  const unresolved: EnvironmentVariable[] = [];
+
+  for (const env of environment) {
+    if (!env.isExpression) {
+      // Secret parameter values are locked: Coolify no longer shows them once saved
+      variables.push(
+        env.isSecret
+          ? { ...toPayload(env.key, env.value), is_shown_once: true }
+          : toPayload(env.key, env.value)
+      );
+      continue;
+    }
+
+    const value = resolveConstant(env.value) ?? context.resolveExpression?.(env.value.trim());
+    if (value !== undefined) {
+      variables.push(toPayload(env.key, value));
+    } else {
+      unresolved.push(env);
+    }
+  }
+
+  return { variables, unresolved };
+}
+
+/**
+ * Build the env variables injecting a referenced database's connection URL:
+ * the generic name (e.g. DATABASE_URL) and the .NET-style ConnectionStrings__<name> key
+ */
+export function createConnectionStringEnvironment(
+  reference: Reference,
+  url: string
+): EnvironmentVariablePayload[] {
+  const variables: EnvironmentVariablePayload[] = [];
+
+  if (reference.connectionStringEnv) {
+    variables.push(toPayload(reference.connectionStringEnv, url));
+  }
+  variables.push(toPayload(`ConnectionStrings__${reference.to}`, url));
+
+  return variables;
+}
+
+/**
+ * Build the ADO.NET connection string of a SQL Server instance, logging in as SA.
+ * The server uses a self-signed certificate on the internal network.
+ */
+export function createSqlServerConnectionString(
+  host: string,
+  password: string,
+  database?: string
+): string {
+  const parts = [`Server=${host},${SQL_SERVER_PORT}`];
+  if (database) {
+    parts.push(`Database=${database}`);
+  }
+  parts.push('User ID=sa', `Password=${password}`, 'TrustServerCertificate=true');
+  return parts.join(';');
+}
+
+/**
+ * Build the Aspire service-discovery variables (services__<name>__<endpoint>__0) pointing
+ * at a referenced application through its internal Coolify hostname
+ */
+export function createServiceDiscoveryEnvironment(
+  target: Application,
+  hostname: string
+): EnvironmentVariablePayload[] {
+  // Endpoints without an explicit port are served on the first exposed port (80 by default)
+  const exposedPorts = target.endpoints
+    .map((e) => e.targetPort || e.port)
+    .filter((p): p is number => p !== undefined);
+  const defaultPort = exposedPorts[0] ?? 80;
+
+  const urls = new Map<string, string>();
+  for (const endpoint of target.endpoints) {
+    const endpointName = endpoint.name || endpoint.protocol;
+    if (urls.has(endpointName)) {
+      continue;
+    }
+    const port = endpoint.targetPort || endpoint.port || defaultPort;
+    urls.set(endpointName, `${endpoint.protocol}://${hostname}:${port}`);
+  }
+
+  if (urls.size === 0) {
+    urls.set('http', `http://${hostname}:${defaultPort}`);
+  }
+
+  return [...urls.entries()].map(([endpointName, url]) =>
+    toPayload(`services__${target.name}__${endpointName}__0`, url)
+  );
+}
+
+/**
+ * Keys of the env variables a resource receives from its references. Their values are only
+ * known once the referenced resources are deployed.
+ */
+export function getReferenceEnvironmentKeys(app: AspireApp, resourceName: string): string[] {
+  const keys = new Set<string>();
+
+  for (const reference of app.references) {
+    if (reference.from !== resourceName) {
+      continue;
+    }
+
+    const targetApp = app.applications.find((a) => a.name === reference.to);
+    const variables = targetApp
+      ? createServiceDiscoveryEnvironment(targetApp, '')
+      : reference.connectionStringEnv || findConnectionString(app, reference.to)
+        ? createConnectionStringEnvironment(reference, '')
+        : [];
+    variables.forEach((variable) => keys.add(variable.key));
+  }
+
+  return [...keys];
+}
+
+/**
+ * Merge env payloads, later entries overriding earlier ones with the same key
+ */
+export function mergeEnvironment(
+  ...groups: EnvironmentVariablePayload[][]
+): EnvironmentVariablePayload[] {
+  const merged = new Map<string, EnvironmentVariablePayload>();
+  for (const group of groups) {
+    for (const variable of group) {
+      merged.set(variable.key, variable);
+    }
+  }
+  return [...merged.values()];
+}
+
+function toPayload(key: string, value: string): EnvironmentVariablePayload {
+  return {
+    key,
+    value,
+    is_preview: false,
+    is_literal: true,
+  };
+}
+
+/**
+ * Resolve C# constant expressions (numbers, booleans) to their string value
+ */
+function resolveConstant(expression: string): string | undefined {
+  const trimmed = expression.trim();
+
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return trimmed;
+  }
+  if (trimmed === 'true' || trimmed === 'false') {
+    return trimmed;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,200 @@
+/**
+ * Dependency graph - Orders Aspire resources from WaitFor and WithReference relations
+ */
+
+import {
+  getSqlServerInstances,
+  type AspireApp,
+  type Application,
+  type Database,
+  type Service,
+  type SqlServerInstance,
+  type StorageService,
+} from '../models/aspire.js';
+
+/**
+ * A resource of the graph. Resources of different kinds may share a name (a database and
+ * an application both named "analytics"), so nodes are keyed by their id, kind and name.
+ * dependsOn holds the ids of the nodes the resource depends on.
+ */
+export type ResourceNode = (
+  | { kind: 'database'; resource: Database }
+  | { kind: 'sqlserver'; resource: SqlServerInstance }
+  | { kind: 'storage'; resource: StorageService }
+  | { kind: 'service'; resource: Service }
+  | { kind: 'application'; resource: Application }
+) & { id: string; name: string; dependsOn: string[] };
+
+export type ResourceKind = ResourceNode['kind'];
+
+/**
+ * Id of the node of a resource (e.g. "application:analytics")
+ */
+export function getNodeId(kind: ResourceKind, name: string): string {
+  return `${kind}:${name}`;
+}
+
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' → ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * Build the dependency graph of an Aspire model, in declaration order
+ * (databases, SQL Server instances, storage, services, then applications).
+ * SQL Server databases are served by their instance node.
+ * Edges come from WaitFor, the resolved references and raw service/application references.
+ */
+export function buildDependencyGraph(app: AspireApp): ResourceNode[] {
+  const nodes: ResourceNode[] = [
+    ...app.databases
+      .filter((db) => db.type !== 'sqlserver')
+      .map((resource) => ({
+        kind: 'database' as const,
+        id: getNodeId('database', resource.name),
+        name: resource.name,
+        resource,
+        dependsOn: [],
+      })),
+    ...getSqlServerInstances(app).map((resource) => ({
+      kind: 'sqlserver' as const,
+      id: getNodeId('sqlserver', resource.name),
+      name: resource.name,
+      resource,
+      dependsOn: [],
+    })),
+    ...app.storage.map((resource) => ({
+      kind: 'storage' as const,
+      id: getNodeId('storage', resource.name),
+      name: resource.name,
+      resource,
+      dependsOn: [],
+    })),
+    ...app.services.map((resource) => ({
+      kind: 'service' as const,
+      id: getNodeId('service', resource.name),
+      name: resource.name,
+      resource,
+      dependsOn: [],
+    })),
+    ...app.applications.map((resource) => ({
+      kind: 'application' as const,
+      id: getNodeId('application', resource.name),
+      name: resource.name,
+      resource,
+      dependsOn: [],
+    })),
+  ];
+
+  const addDependency = (node: ResourceNode, target: string): void => {
+    const id = resolveNode(nodes, target, node)?.id;
+    if (id && id !== node.id && !node.dependsOn.includes(id)) {
+      node.dependsOn.push(id);
+    }
+  };
+
+  for (const node of nodes) {
+    // Only services and applications reference other resources
+    if (node.kind !== 'service' && node.kind !== 'application') {
+      continue;
+    }
+
+    for (const reference of app.references) {
+      if (reference.from === node.name) {
+        addDependency(node, reference.to);
+      }
+    }
+
+    for (const reference of node.resource.references) {
+      addDependency(node, reference);
+    }
+
+    if (node.kind === 'application') {
+      for (const target of node.resource.waitFor ?? []) {
+        addDependency(node, target);
+      }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Order nodes so that every resource comes after its dependencies.
+ * Declaration order is kept otherwise; cycles throw a DependencyCycleError.
+ */
+export function sortTopologically<TNode extends ResourceNode>(nodes: TNode[]): TNode[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const ordered: TNode[] = [];
+  const done = new Set<string>();
+  const path: TNode[] = [];
+
+  const visit = (node: TNode): void => {
+    if (done.has(node.id)) {
+      return;
+    }
+
+    const index = path.indexOf(node);
+    if (index !== -1) {
+      throw new DependencyCycleError([...path.slice(index), node].map((n) => n.name));
+    }
+
+    path.push(node);
+    for (const dependency of node.dependsOn) {
+      const target = byId.get(dependency);
+      if (target) {
+        visit(target);
+      }
+    }
+    path.pop();
+
+    done.add(node.id);
+    ordered.push(node);
+  };
+
+  nodes.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Ids of the nodes other resources WaitFor
+ */
+export function getWaitForTargets(nodes: ResourceNode[]): Set<string> {
+  const targets = new Set<string>();
+  for (const node of nodes) {
+    if (node.kind !== 'application') continue;
+    for (const target of node.resource.waitFor ?? []) {
+      const resolved = resolveNode(nodes, target, node);
+      if (resolved) {
+        targets.add(resolved.id);
+      }
+    }
+  }
+  return targets;
+}
+
+/**
+ * Find the node of a reference or WaitFor target of a node, which may use the C# variable
+ * name or the resource name. A SQL Server database resolves to the instance serving it.
+ * Variable names are unique, so they are matched first; a name shared with the referencing
+ * resource itself points to the other resource.
+ */
+function resolveNode(
+  nodes: ResourceNode[],
+  target: string,
+  from: ResourceNode
+): ResourceNode | undefined {
+  return (
+    nodes.find((n) => n.resource.variableName === target) ??
+    nodes.find((n) => n !== from && (n.name === target || isServedBy(n, target)))
+  );
+}
+
+function isServedBy(node: ResourceNode, target: string): boolean {
+  return (
+    node.kind === 'sqlserver' &&
+    node.resource.databases.some((db) => db.name === target || db.variableName === target)
+  );
+}
@@ -5,3 +5,10 @@
 export * from './coolify.js';
 export * from './token.js';
 export * from './deployer.js';
+export * from './environment.js';
+export * from './destroyer.js';
+export * from './drift.js';
+export * from './diff.js';
+export * from './deployments.js';
+export * from './graph.js';
+export * from './parameters.js';
@@ -0,0 +1,191 @@
+/**
+ * Parameter resolution - values of the AddParameter resources read by environment variables
+ * and of the AddConnectionString resources injected by references
+ */
+
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import {
+  findParameter,
+  type AspireApp,
+  type ConnectionString,
+  type EnvironmentVariable,
+  type Parameter,
+} from '../models/aspire.js';
+
+export interface ParameterResolutionOptions {
+  values?: Record<string, string>; // The parameters section of the config file
+  env?: Record<string, string | undefined>; // Defaults to process.env
+  secrets?: boolean; // Resolve secret parameters too (default: true)
+  prompt?: boolean; // Ask for the missing values when running in a TTY (default: true)
+  placeholder?: string; // Value of the missing parameters instead of a prompt (dry runs)
+}
+
+export interface ResolvedParameters {
+  values: Record<string, string>;
+  unresolved: Parameter[];
+}
+
+/**
+ * Printed instead of secret values
+ */
+const SECRET_PLACEHOLDER = '(hidden)';
+
+/**
+ * Parameters read by the environment of at least one resource
+ */
+export function getUsedParameters(app: AspireApp): Parameter[] {
+  const used = new Set<Parameter>();
+  for (const env of getEnvironments(app).flat()) {
+    const parameter = env.isExpression ? findParameter(app, env.value) : undefined;
+    if (parameter) {
+      used.add(parameter);
+    }
+  }
+  return app.parameters.filter((p) => used.has(p));
+}
+
+/**
+ * Resolve the values of the used parameters in priority order:
+ * 1. Parameters__<name> environment variable
+ * 2. Config file parameters.<name>
+ * 3. Default value declared in the AppHost
+ * 4. Placeholder, if given, or an interactive prompt (if TTY)
+ */
+export async function resolveParameters(
+  app: AspireApp,
+  options: ParameterResolutionOptions = {}
+): Promise<ResolvedParameters> {
+  const env = options.env ?? process.env;
+  const values: Record<string, string> = {};
+  const unresolved: Parameter[] = [];
+
+  for (const parameter of getUsedParameters(app)) {
+    if (parameter.secret && options.secrets === false) {
+      continue;
+    }
+
+    const value =
+      env[`Parameters__${parameter.name}`] ?? options.values?.[parameter.name] ?? parameter.value;
+    if (value !== undefined) {
+      values[parameter.name] = value;
+    } else if (options.placeholder !== undefined) {
+      values[parameter.name] = options.placeholder;
+    } else if (options.prompt !== false && process.stdin.isTTY) {
+      values[parameter.name] = await promptForParameter(parameter);
+    } else {
+      unresolved.push(parameter);
+    }
+  }
+
+  return { values, unresolved };
+}
+
+/**
+ * Replace the parameter expressions of every environment with their values. Variables of
+ * secret parameters are flagged, and variables without a value keep their expression.
+ */
+export function applyParameters(app: AspireApp, values: Record<string, string>): AspireApp {
+  if (app.parameters.length === 0) {
+    return app;
+  }
+
+  const apply = (environment: EnvironmentVariable[]): EnvironmentVariable[] =>
+    environment.map((env) => {
+      const parameter = env.isExpression ? findParameter(app, env.value) : undefined;
+      if (!parameter) {
+        return env;
+      }
+      const value = values[parameter.name];
+      return {
+        key: env.key,
+        value: value ?? env.value,
+        isExpression: value === undefined,
+        parameter: parameter.name,
+        ...(parameter.secret ? { isSecret: true } : {}),
+      };
+    });
+
+  return {
+    ...app,
+    databases: app.databases.map((db) => ({ ...db, environment: apply(db.environment) })),
+    services: app.services.map((s) => ({ ...s, environment: apply(s.environment) })),
+    storage: app.storage.map((s) => ({ ...s, environment: apply(s.environment) })),
+    applications: app.applications.map((a) => ({ ...a, environment: apply(a.environment) })),
+  };
+}
+
+/**
+ * Hide the default values of secret parameters, for printing the model
+ */
+export function redactSecretParameters(app: AspireApp): AspireApp {
+  return {
+    ...app,
+    parameters: app.parameters.map((p) =>
+      p.secret && p.value !== undefined ? { ...p, value: SECRET_PLACEHOLDER } : p
+    ),
+  };
+}
+
+/**
+ * Set the values of the AddConnectionString resources, in priority order:
+ * 1. ConnectionStrings__<name> environment variable
+ * 2. Config file connectionStrings.<name>
+ * Connection strings without a value are reported by the deployer when injected.
+ */
+export function resolveConnectionStrings(
+  app: AspireApp,
+  options: Pick<ParameterResolutionOptions, 'values' | 'env'> = {}
+): AspireApp {
+  const env = options.env ?? process.env;
+  const resolve = (connectionString: ConnectionString): ConnectionString => {
+    const value =
+      env[`ConnectionStrings__${connectionString.name}`] ?? options.values?.[connectionString.name];
+    return value !== undefined ? { ...connectionString, value } : connectionString;
+  };
+
+  return { ...app, connectionStrings: app.connectionStrings.map(resolve) };
+}
+
+function getEnvironments(app: AspireApp): EnvironmentVariable[][] {
+  return [...app.databases, ...app.services, ...app.storage, ...app.applications].map(
+    (resource) => resource.environment
+  );
+}
+
+/**
+ * Prompt user for a parameter value. The input of secret parameters is not echoed.
+ */
+async function promptForParameter(parameter: Parameter): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (muted) {
+        callback();
+      } else {
+        process.stdout.write(chunk, encoding, callback);
+      }
+    },
+  });
+  const rl = createInterface({
+    input: process.stdin,
+    output,
+    terminal: true,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(
+      `Enter the value of ${parameter.secret ? 'secret ' : ''}parameter ${parameter.name}: `,
+      (answer) => {
+        muted = false;
+        if (parameter.secret) {
+          process.stdout.write('\n');
+        }
+        rl.close();
+        resolve(answer.trim());
+      }
+    );
+    // The question is written synchronously, only the typed answer is muted
+    muted = parameter.secret;
+  });
+}
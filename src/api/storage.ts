@@ -0,0 +1,83 @@
+/**
+ * Persistent storage - turns parsed volumes and bind mounts into Coolify storage payloads
+ */
+
+import type { Volume } from '../models/aspire.js';
+import type { PersistentStoragePayload } from './coolify.js';
+
+export interface PersistentStorages {
+  payloads: PersistentStoragePayload[];
+  warnings: string[];
+}
+
+/**
+ * Build the persistent storages of a resource from its parsed volumes.
+ * Volumes without a mount path are skipped: Coolify templates already persist their data.
+ * Docker volumes are shared by every resource on a server, so their names are prefixed
+ * with the resource UUID.
+ */
+export function buildPersistentStorages(
+  uuid: string,
+  resourceName: string,
+  volumes: Volume[]
+): PersistentStorages {
+  const payloads: PersistentStoragePayload[] = [];
+  const warnings: string[] = [];
+
+  for (const volume of volumes) {
+    if (!volume.mountPath?.startsWith('/')) {
+      continue;
+    }
+
+    if (volume.isData) {
+      // Anonymous volumes are named after their mount path, each gets its own Docker volume
+      payloads.push({
+        type: 'persistent',
+        name: `${uuid}-${toVolumeName(volume.name || `${resourceName}${volume.mountPath}`)}`,
+        mount_path: volume.mountPath,
+        is_read_only: volume.isReadOnly,
+      });
+      continue;
+    }
+
+    const warning = describeMissingBindMount(volume);
+    if (warning) {
+      warnings.push(`${warning}, not attached`);
+      continue;
+    }
+
+    payloads.push({
+      type: 'persistent',
+      name: `${uuid}-${toVolumeName(volume.mountPath)}`,
+      mount_path: volume.mountPath,
+      host_path: volume.name,
+      is_read_only: volume.isReadOnly,
+    });
+  }
+
+  return { payloads, warnings };
+}
+
+/**
+ * Warnings for bind mounts whose host path will not exist on the Coolify server.
+ * Relative paths are resolved against the AppHost directory, which is not deployed.
+ */
+export function getBindMountWarnings(volumes: Volume[]): string[] {
+  return volumes
+    .map(describeMissingBindMount)
+    .filter((warning): warning is string => warning !== undefined);
+}
+
+function describeMissingBindMount(volume: Volume): string | undefined {
+  if (volume.isData || !volume.name || volume.name.startsWith('/')) {
+    return undefined;
+  }
+  return `Bind mount ${volume.name} → ${volume.mountPath}: ${volume.name} is relative to the AppHost and does not exist on the Coolify server`;
+}
+
+function toVolumeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9_.-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -7,23 +7,165 @@
 
 import { Command } from 'commander';
 import { writeFileSync, existsSync, readFileSync } from 'node:fs';
-import { resolve, dirname, join } from 'node:path';
+import { resolve, dirname, join, relative } from 'node:path';
 import { fileURLToPath, pathToFileURL } from 'node:url';
+import { createInterface } from 'node:readline';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const packageJson = JSON.parse(
   readFileSync(join(__dirname, '../../package.json'), 'utf-8')
 );
-import { parseFile } from '../parser/index.js';
+import { parseFile, type ParseWarning } from '../parser/index.js';
 import { generate } from '../generators/coolify/index.js';
-import { loadConfig, createConfigTemplate } from '../config/index.js';
+import {
+  loadConfig,
+  createConfigTemplate,
+  type Aspire2CoolifyConfig,
+} from '../config/index.js';
 import {
   CoolifyApiClient,
+  type CoolifyApiConfig,
   resolveToken,
   resolveApiUrl,
   validateCredentials,
   deployToCoolify,
+  findDestroyTargets,
+  destroyFromCoolify,
+  diffDeployment,
+  formatDeploymentDiff,
+  isFailedDeployment,
+  describeApiErrorContext,
+  formatFieldErrors,
+  resolveParameters,
+  applyParameters,
+  redactSecretParameters,
+  resolveConnectionStrings,
+  type ResolvedParameters,
 } from '../api/index.js';
+import {
+  loadState,
+  saveState,
+  createEmptyState,
+  recordDeployment,
+  importResource,
+  forgetResources,
+  getStatePath,
+  STATE_RESOURCE_TYPES,
+  type StateResourceType,
+} from '../state/index.js';
+
+/**
+ * Load the config file given with --config, or search for one
+ */
+async function loadCliConfig(configPath?: string): Promise<Aspire2CoolifyConfig> {
+  return configPath
+    ? await import(pathToFileURL(resolve(configPath)).href).then((m) => m.default || m)
+    : await loadConfig();
+}
+
+/**
+ * Derive a project name from the AppHost file path (e.g., "VibeCode.AppHost" -> "VibeCode")
+ */
+function deriveProjectName(filePath: string): string {
+  // Get directory name containing Program.cs (typically AppHost folder)
+  const dirName = dirname(filePath);
+  const parentDir = dirname(dirName);
+  const appHostName = dirName.split(/[/\\]/).pop() || 'AspireApp';
+  const projectDir = parentDir.split(/[/\\]/).pop() || '';
+
+  if (appHostName.includes('.AppHost')) {
+    return appHostName.replace('.AppHost', '');
+  }
+  if (appHostName.includes('AppHost')) {
+    return appHostName.replace('AppHost', '') || projectDir || 'AspireApp';
+  }
+  return projectDir || appHostName;
+}
+
+/**
+ * Format a parse error or warning, prefixed with its file:line:column location when known
+ * so that editors and terminals can jump to it
+ */
+function formatParseMessage(filePath: string, entry: ParseWarning): string {
+  if (entry.line === undefined) {
+    return entry.message;
+  }
+  const file = relative(process.cwd(), filePath) || filePath;
+  const column = entry.column !== undefined ? `:${entry.column}` : '';
+  return `${file}:${entry.line}${column}: ${entry.message}`;
+}
+
+/**
+ * Build the request timeout and retry policy of the API client from the CLI flags
+ */
+function parseRequestOptions(options: {
+  requestTimeout: string;
+  retries: string;
+}): Pick<CoolifyApiConfig, 'timeoutMs' | 'retry'> {
+  const timeout = Number(options.requestTimeout);
+  if (!Number.isFinite(timeout) || timeout < 0) {
+    throw new Error(`Invalid --request-timeout: ${options.requestTimeout}`);
+  }
+
+  const retries = Number(options.retries);
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(`Invalid --retries: ${options.retries}`);
+  }
+
+  return { timeoutMs: timeout * 1000, retry: { maxRetries: retries } };
+}
+
+/**
+ * Look up a project UUID by name (undefined when no project has that name)
+ */
+async function findProjectUuid(
+  client: CoolifyApiClient,
+  projectName: string
+): Promise<string | undefined> {
+  const projectsResult = await client.listProjects();
+  if (!projectsResult.success) {
+    throw new Error(`Failed to list projects: ${projectsResult.error}`);
+  }
+  return projectsResult.data?.find((p) => p.name === projectName)?.uuid;
+}
+
+/**
+ * Ask a yes/no question on the terminal
+ */
+async function promptConfirmation(question: string): Promise<boolean> {
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolvePrompt) => {
+    rl.question(`${question} [y/N] `, (answer) => {
+      rl.close();
+      resolvePrompt(['y', 'yes'].includes(answer.trim().toLowerCase()));
+    });
+  });
+}
+
+/**
+ * Warn about the parameters whose variables cannot be set, as the deploy reports them unresolved
+ */
+function printUnresolvedParameters(parameters: ResolvedParameters): void {
+  for (const parameter of parameters.unresolved) {
+    console.error(
+      `Warning: No value for parameter ${parameter.name} ` +
+        `(set Parameters__${parameter.name} or parameters.${parameter.name} in the config)`
+    );
+  }
+}
+
+/**
+ * Warn about the parse warnings, such as the methods the parser skipped (errors with --strict)
+ */
+function printParseWarnings(filePath: string, warnings: ParseWarning[]): void {
+  for (const warning of warnings) {
+    console.error(`Warning: ${formatParseMessage(filePath, warning)}`);
+  }
+}
 
 const program = new Command();
 
@@ -35,10 +177,13 @@ program
 // Parse command
 program
   .command('parse <file>')
-  .description('Parse an Aspire Program.cs file and display the extracted model')
+  .description(
+    'Parse an Aspire Program.cs file or aspire-manifest.json and display the extracted model'
+  )
   .option('-o, --output <file>', 'Output file for the JSON model')
   .option('--pretty', 'Pretty print JSON output', true)
-  .action(async (file: string, options: { output?: string; pretty?: boolean }) => {
+  .option('--strict', 'Fail on Aspire methods the parser does not understand')
+  .action(async (file: string, options: { output?: string; pretty?: boolean; strict?: boolean }) => {
     try {
       const filePath = resolve(file);
 
@@ -48,25 +193,25 @@ program
       }
 
       console.log(`Parsing: ${filePath}`);
-      const result = parseFile(filePath);
+      const result = parseFile(filePath, { strict: options.strict });
 
       if (result.errors.length > 0) {
         console.error('\nErrors:');
         for (const error of result.errors) {
-          console.error(`  - ${error.message}`);
+          console.error(`  - ${formatParseMessage(filePath, error)}`);
         }
       }
 
       if (result.warnings.length > 0) {
         console.warn('\nWarnings:');
         for (const warning of result.warnings) {
-          console.warn(`  - ${warning}`);
+          console.warn(`  - ${formatParseMessage(filePath, warning)}`);
         }
       }
 
-      const jsonOutput = options.pretty
-        ? JSON.stringify(result.app, null, 2)
-        : JSON.stringify(result.app);
+      // The model is printed or saved in clear, so secret defaults are left out
+      const model = redactSecretParameters(result.app);
+      const jsonOutput = options.pretty ? JSON.stringify(model, null, 2) : JSON.stringify(model);
 
       if (options.output) {
         writeFileSync(options.output, jsonOutput);
@@ -83,6 +228,10 @@ program
       console.log(`  Storage: ${result.app.storage.length}`);
       console.log(`  Applications: ${result.app.applications.length}`);
       console.log(`  References: ${result.app.references.length}`);
+
+      if (options.strict && result.errors.length > 0) {
+        process.exit(1);
+      }
     } catch (err) {
       console.error(`Error: ${err instanceof Error ? err.message : err}`);
       process.exit(1);
@@ -92,7 +241,9 @@ program
 // Generate command
 program
   .command('generate <file>')
-  .description('Generate Coolify CLI commands from an Aspire Program.cs file')
+  .description(
+    'Generate Coolify CLI commands from an Aspire Program.cs file or aspire-manifest.json'
+  )
   .option('-o, --output <file>', 'Output file for the generated script')
   .option('-c, --config <file>', 'Config file path')
   .option('--no-comments', 'Exclude comments from output')
@@ -101,6 +252,7 @@ program
   .option('--server-id <id>', 'Coolify server UUID')
   .option('--environment-name <name>', 'Coolify environment name (e.g., production)')
   .option('--json', 'Output as JSON instead of shell script')
+  .option('--strict', 'Fail on Aspire methods the parser does not understand')
   .action(
     async (
       file: string,
@@ -113,6 +265,7 @@ program
         serverId?: string;
         environmentName?: string;
         json?: boolean;
+        strict?: boolean;
       }
     ) => {
       try {
@@ -124,46 +277,44 @@ program
         }
 
         // Load config
-        const config = options.config
-          ? await import(pathToFileURL(resolve(options.config)).href).then((m) => m.default || m)
-          : await loadConfig();
-
-        // Derive project name from file path if not provided
-        const deriveProjectName = (fp: string): string => {
-          const dirName = dirname(fp);
-          const parentDir = dirname(dirName);
-          const appHostName = dirName.split(/[/\\]/).pop() || 'AspireApp';
-          const projectDir = parentDir.split(/[/\\]/).pop() || '';
-
-          if (appHostName.includes('.AppHost')) {
-            return appHostName.replace('.AppHost', '');
-          }
-          if (appHostName.includes('AppHost')) {
-            return appHostName.replace('AppHost', '') || projectDir || 'AspireApp';
-          }
-          return projectDir || appHostName;
-        };
+        const config = await loadCliConfig(options.config);
 
         const projectId = options.projectId || config.coolify?.projectId;
         const projectName = options.projectName || config.coolify?.projectName || deriveProjectName(filePath);
 
         console.log(`Parsing: ${filePath}`);
-        const parseResult = parseFile(filePath);
+        const parseResult = parseFile(filePath, { strict: options.strict });
 
         if (parseResult.errors.length > 0) {
           console.error('\nParse Errors:');
           for (const error of parseResult.errors) {
-            console.error(`  - ${error.message}`);
+            console.error(`  - ${formatParseMessage(filePath, error)}`);
+          }
+          if (options.strict) {
+            process.exit(1);
           }
         }
+        printParseWarnings(filePath, parseResult.warnings);
+
+        // Secret parameters are never written to the script, it reads them at run time
+        const parameters = await resolveParameters(parseResult.app, {
+          values: config.parameters,
+          secrets: false,
+          prompt: false,
+        });
+        const app = applyParameters(parseResult.app, parameters.values);
 
         // Generate commands
-        const generateResult = generate(parseResult.app, {
+        const generateResult = generate(app, {
           includeComments: options.comments !== false,
           projectId: projectId,
           projectName: !projectId ? projectName : undefined,
           serverId: options.serverId || config.coolify?.serverId,
-          environmentName: options.environmentName || config.coolify?.environmentName,
+          environmentName:
+            options.environmentName || config.coolify?.environmentName || 'production',
+          github: config.github?.repository ? config.github : undefined,
+          domains: config.domains,
+          mappings: config.mappings,
         });
 
         if (generateResult.errors.length > 0) {
@@ -193,6 +344,9 @@ program
         // Summary
         console.log('\nGenerated:');
         console.log(`  ${generateResult.commands.length} Coolify commands`);
+        for (const mapping of generateResult.mappings) {
+          console.log(`  ${mapping.name}: mapped ${mapping.from} → ${mapping.to}`);
+        }
       } catch (err) {
         console.error(`Error: ${err instanceof Error ? err.message : err}`);
         process.exit(1);
@@ -219,6 +373,15 @@ program
   .option('--github-app-uuid <uuid>', 'GitHub App UUID for private repositories (from Coolify Sources page)')
   .option('--build-pack <type>', 'Build pack for applications (nixpacks, dockerfile, static, dockercompose)')
   .option('--skip-existing', 'Skip resources that already exist instead of failing')
+  .option('--update', 'Update existing resources whose settings drifted from Program.cs')
+  .option('--state-dir <dir>', 'Directory of the deployment state file (default: .aspire2coolify)')
+  .option('--request-timeout <seconds>', 'Timeout of each API request (0 disables it)', '30')
+  .option('--retries <n>', 'Retries of API requests failing with 429, 5xx or network errors', '3')
+  .option('--wait', 'Deploy resources after creation and wait for each deployment to finish')
+  .option('--wait-timeout <seconds>', 'Maximum time to wait for each deployment', '900')
+  .option('--concurrency <n>', 'Number of independent resources created in parallel', '1')
+  .option('--rollback-on-failure', 'Delete the resources created by this run if any resource fails')
+  .option('--strict', 'Fail on Aspire methods the parser does not understand')
   .action(
     async (
       file: string,
@@ -238,6 +401,15 @@ program
         githubAppUuid?: string;
         buildPack?: string;
         skipExisting?: boolean;
+        update?: boolean;
+        stateDir?: string;
+        requestTimeout: string;
+        retries: string;
+        wait?: boolean;
+        waitTimeout: string;
+        concurrency: string;
+        rollbackOnFailure?: boolean;
+        strict?: boolean;
       }
     ) => {
       try {
@@ -248,10 +420,20 @@ program
           process.exit(1);
         }
 
+        const waitTimeout = Number(options.waitTimeout);
+        if (options.wait && (!Number.isFinite(waitTimeout) || waitTimeout <= 0)) {
+          console.error(`Error: Invalid --wait-timeout: ${options.waitTimeout}`);
+          process.exit(1);
+        }
+
+        const concurrency = Number(options.concurrency);
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+          console.error(`Error: Invalid --concurrency: ${options.concurrency}`);
+          process.exit(1);
+        }
+
         // Load config
-        const config = options.config
-          ? await import(pathToFileURL(resolve(options.config)).href).then((m) => m.default || m)
-          : await loadConfig();
+        const config = await loadCliConfig(options.config);
 
         // Resolve API URL and token
         const apiUrl = await resolveApiUrl({
@@ -279,9 +461,11 @@ program
         }
 
         // Resolve deployment config
-        let projectUuid = options.projectId || config.coolify?.projectId;
-        const serverUuid = options.serverId || config.coolify?.serverId;
         const environmentName = options.environmentName || config.coolify?.environmentName || 'production';
+        // UUIDs recorded by a previous deploy of this environment
+        const state = loadState(environmentName, options.stateDir);
+        let projectUuid = options.projectId || config.coolify?.projectId || state?.projectUuid;
+        const serverUuid = options.serverId || config.coolify?.serverId || state?.serverUuid;
 
         if (!options.dryRun && !serverUuid) {
           console.error('\nMissing required configuration:');
@@ -292,37 +476,20 @@ program
           process.exit(1);
         }
 
-        // Derive project name from file path if not provided
-        const deriveProjectName = (filePath: string): string => {
-          // Get directory name containing Program.cs (typically AppHost folder)
-          const dirName = dirname(filePath);
-          const parentDir = dirname(dirName);
-          const appHostName = dirName.split(/[/\\]/).pop() || 'AspireApp';
-          const projectDir = parentDir.split(/[/\\]/).pop() || '';
-
-          // Try to extract a clean name (e.g., "VibeCode.AppHost" -> "VibeCode")
-          if (appHostName.includes('.AppHost')) {
-            return appHostName.replace('.AppHost', '');
-          }
-          if (appHostName.includes('AppHost')) {
-            return appHostName.replace('AppHost', '') || projectDir || 'AspireApp';
-          }
-          return projectDir || appHostName;
-        };
-
         const projectName = options.projectName || config.coolify?.projectName || deriveProjectName(filePath);
 
         // Parse the Aspire file
         console.log(`Parsing: ${filePath}`);
-        const parseResult = parseFile(filePath);
+        const parseResult = parseFile(filePath, { strict: options.strict });
 
         if (parseResult.errors.length > 0) {
           console.error('\nParse Errors:');
           for (const error of parseResult.errors) {
-            console.error(`  - ${error.message}`);
+            console.error(`  - ${formatParseMessage(filePath, error)}`);
           }
           process.exit(1);
         }
+        printParseWarnings(filePath, parseResult.warnings);
 
         // Count resources
         const totalResources =
@@ -341,10 +508,13 @@ program
         const client = new CoolifyApiClient({
           apiUrl: apiUrl || 'http://localhost', // Dummy URL for dry-run
           token: token || 'dry-run-token',
+          ...parseRequestOptions(options),
         });
 
-        // Resolve skipExisting from CLI or config (needed for project/environment checks)
+        // Resolve skipExisting/update from CLI or config (needed for project/environment checks)
         const skipExisting = options.skipExisting || config.coolify?.skipExisting;
+        const updateExisting = options.update || config.coolify?.updateExisting;
+        const reuseExisting = skipExisting || updateExisting;
 
         // Test connection (unless dry-run)
         if (!options.dryRun) {
@@ -372,11 +542,13 @@ program
             if (projectsResult.success && projectsResult.data) {
               existingProject = projectsResult.data.find(p => p.name === projectName);
               if (existingProject) {
-                if (skipExisting) {
+                if (reuseExisting) {
                   console.log(`  ⊘ Using existing project "${projectName}" (uuid: ${existingProject.uuid})`);
                   projectUuid = existingProject.uuid;
                 } else {
-                  console.error(`  ✗ Project "${projectName}" already exists (use --skip-existing to reuse)`);
+                  console.error(
+                    `  ✗ Project "${projectName}" already exists (use --skip-existing or --update to reuse)`
+                  );
                   process.exit(1);
                 }
               }
@@ -407,10 +579,12 @@ program
           const envExists = existingProject?.environments?.some(e => e.name === environmentName);
 
           if (envExists) {
-            if (skipExisting) {
+            if (reuseExisting) {
               console.log(`  ⊘ Using existing environment "${environmentName}"`);
             } else {
-              console.error(`  ✗ Environment "${environmentName}" already exists in project (use --skip-existing to reuse)`);
+              console.error(
+                `  ✗ Environment "${environmentName}" already exists in project (use --skip-existing or --update to reuse)`
+              );
               process.exit(1);
             }
           } else if (existingProject) {
@@ -422,10 +596,12 @@ program
               console.log(`  ✓ Created environment "${environmentName}"`);
             } else if (envResult.error?.toLowerCase().includes('already exists')) {
               // Environment exists but wasn't returned by listProjects API
-              if (skipExisting) {
+              if (reuseExisting) {
                 console.log(`  ⊘ Using existing environment "${environmentName}"`);
               } else {
-                console.error(`  ✗ Environment "${environmentName}" already exists in project (use --skip-existing to reuse)`);
+                console.error(
+                  `  ✗ Environment "${environmentName}" already exists in project (use --skip-existing or --update to reuse)`
+                );
                 process.exit(1);
               }
             } else {
@@ -453,7 +629,7 @@ program
           }
         }
 
-        const deployResult = await deployToCoolify(client, parseResult.app, {
+        const deployConfig = {
           projectUuid: projectUuid || 'dry-run-project',
           serverUuid: serverUuid || 'dry-run-server',
           environmentName: environmentName || 'production',
@@ -466,27 +642,115 @@ program
           } : undefined,
           buildPack: buildPack,
           skipExisting: skipExisting,
-        }, {
+          updateExisting: updateExisting,
+          rollbackOnFailure: options.rollbackOnFailure || config.coolify?.rollbackOnFailure,
+          domains: config.domains,
+          mappings: config.mappings,
+          state,
+        };
+
+        // A dry run shows the actions without asking for the values they would use
+        const parameters = await resolveParameters(parseResult.app, {
+          values: config.parameters,
+          placeholder: options.dryRun ? 'dry-run-value' : undefined,
+        });
+        printUnresolvedParameters(parameters);
+        const app = resolveConnectionStrings(applyParameters(parseResult.app, parameters.values), {
+          values: config.connectionStrings,
+        });
+
+        const deployResult = await deployToCoolify(client, app, deployConfig, {
           dryRun: options.dryRun,
+          wait: options.wait ? { timeoutMs: waitTimeout * 1000 } : undefined,
+          concurrency,
         });
 
+        // Record the deployed UUIDs so later runs do not rely on name matching
+        if (!options.dryRun) {
+          const statePath = saveState(
+            recordDeployment(
+              state ?? createEmptyState(environmentName),
+              app,
+              deployConfig,
+              deployResult.results
+            ),
+            options.stateDir
+          );
+          console.log(`\nState saved to ${statePath}`);
+        }
+
         // Summary
         console.log('\n' + '─'.repeat(50));
         console.log('Deployment Summary:');
         console.log(`  ✓ Successful: ${deployResult.successful}`);
         console.log(`  ✗ Failed: ${deployResult.failed}`);
+        if (deployResult.updated > 0) {
+          console.log(`  ↻ Updated: ${deployResult.updated}`);
+        }
         if (deployResult.skipped > 0) {
           console.log(`  ⊘ Skipped: ${deployResult.skipped}`);
         }
 
+        const mapped = deployResult.results.filter((r) => r.mapping);
+        if (mapped.length > 0) {
+          console.log('\nMappings:');
+          for (const result of mapped) {
+            console.log(`  - ${result.name}: ${result.mapping!.from} → ${result.mapping!.to}`);
+          }
+        }
+
+        const withWarnings = deployResult.results.filter(
+          (r) => r.warnings && r.warnings.length > 0
+        );
+        if (withWarnings.length > 0) {
+          console.log('\nWarnings:');
+          for (const result of withWarnings) {
+            for (const warning of result.warnings ?? []) {
+              console.log(`  - ${result.name}: ${warning}`);
+            }
+          }
+        }
+
+        const deployments = deployResult.results.filter((r) => r.deployment);
+        if (deployments.length > 0) {
+          console.log('\nDeployments:');
+          for (const result of deployments) {
+            const deployment = result.deployment!;
+            const duration = `${(deployment.durationMs / 1000).toFixed(1)}s`;
+            const symbol = isFailedDeployment(deployment) ? '✗' : '✓';
+            console.log(`  ${symbol} ${result.name}: ${deployment.status} (${duration})`);
+          }
+        }
+
+        if (deployResult.rollback) {
+          console.log('\nRollback:');
+          for (const result of deployResult.rollback.results) {
+            const symbol = result.success ? '✓' : '✗';
+            const detail = result.success ? 'deleted' : `not deleted: ${result.error}`;
+            console.log(`  ${symbol} ${result.resourceType} ${result.name}: ${detail}`);
+          }
+          if (deployResult.rollback.failed > 0) {
+            console.log('  Some created resources could not be deleted; remove them manually.');
+          }
+        }
+
         if (deployResult.failed > 0) {
           console.log('\nFailed resources:');
           for (const result of deployResult.results.filter((r) => !r.success)) {
-            console.log(`  - ${result.name}: ${result.error}`);
+            const context = result.apiError ? ` (${describeApiErrorContext(result.apiError)})` : '';
+            console.log(`  - ${result.name}: ${result.error}${context}`);
+            for (const line of formatFieldErrors(result.apiError)) {
+              console.log(`      ${line}`);
+            }
           }
           process.exit(1);
         }
 
+        if (deployments.some((r) => isFailedDeployment(r.deployment!))) {
+          console.log('\nSome deployments did not finish successfully.');
+          process.exit(1);
+        }
+
         console.log('\nDeployment complete!');
       } catch (err) {
         console.error(`Error: ${err instanceof Error ? err.message : err}`);
@@ -495,6 +759,479 @@ program
     }
   );
 
+// Plan command
+program
+  .command('plan <file>')
+  .alias('diff')
+  .description('Show what deploy would create, update or leave orphaned in Coolify')
+  .option('-c, --config <file>', 'Config file path')
+  .option('--api-url <url>', 'Coolify API URL')
+  .option('--token <token>', 'Coolify API token')
+  .option('--project-id <id>', 'Coolify project UUID')
+  .option('--project-name <name>', 'Project name to look up when --project-id is not provided')
+  .option('--server-id <id>', 'Coolify server UUID')
+  .option('--environment-name <name>', 'Coolify environment name (e.g., production)')
+  .option('--github-repo <url>', 'GitHub repository URL for applications (e.g., https://github.com/org/repo)')
+  .option('--github-branch <branch>', 'GitHub branch to deploy (default: main)')
+  .option('--github-base-path <path>', 'Base path within the GitHub repository')
+  .option('--github-app-uuid <uuid>', 'GitHub App UUID for private repositories (from Coolify Sources page)')
+  .option('--build-pack <type>', 'Build pack for applications (nixpacks, dockerfile, static, dockercompose)')
+  .option('--state-dir <dir>', 'Directory of the deployment state file (default: .aspire2coolify)')
+  .option('--request-timeout <seconds>', 'Timeout of each API request (0 disables it)', '30')
+  .option('--retries <n>', 'Retries of API requests failing with 429, 5xx or network errors', '3')
+  .option('--json', 'Output the plan as JSON')
+  .option('--strict', 'Fail on Aspire methods the parser does not understand')
+  .action(
+    async (
+      file: string,
+      options: {
+        config?: string;
+        apiUrl?: string;
+        token?: string;
+        projectId?: string;
+        projectName?: string;
+        serverId?: string;
+        environmentName?: string;
+        githubRepo?: string;
+        githubBranch?: string;
+        githubBasePath?: string;
+        githubAppUuid?: string;
+        buildPack?: string;
+        stateDir?: string;
+        requestTimeout: string;
+        retries: string;
+        json?: boolean;
+        strict?: boolean;
+      }
+    ) => {
+      try {
+        const filePath = resolve(file);
+
+        if (!existsSync(filePath)) {
+          console.error(`Error: File not found: ${filePath}`);
+          process.exit(1);
+        }
+
+        // Keep stdout machine-readable in JSON mode
+        const log = options.json ? () => {} : console.log;
+
+        const config = await loadCliConfig(options.config);
+
+        const apiUrl = await resolveApiUrl({
+          cliApiUrl: options.apiUrl,
+          configApiUrl: config.coolify?.apiUrl,
+        });
+        const token = await resolveToken({
+          cliToken: options.token,
+          configToken: config.coolify?.token,
+        });
+
+        const validation = validateCredentials({ apiUrl, token });
+        if (!validation.valid) {
+          console.error('\nConfiguration errors:');
+          for (const error of validation.errors) {
+            console.error(`  - ${error}`);
+          }
+          process.exit(1);
+        }
+
+        log(`Parsing: ${filePath}`);
+        const parseResult = parseFile(filePath, { strict: options.strict });
+
+        if (parseResult.errors.length > 0) {
+          console.error('\nParse Errors:');
+          for (const error of parseResult.errors) {
+            console.error(`  - ${formatParseMessage(filePath, error)}`);
+          }
+          process.exit(1);
+        }
+        printParseWarnings(filePath, parseResult.warnings);
+
+        const client = new CoolifyApiClient({
+          apiUrl: apiUrl!,
+          token: token!,
+          ...parseRequestOptions(options),
+        });
+        const environmentName =
+          options.environmentName || config.coolify?.environmentName || 'production';
+
+        const state = loadState(environmentName, options.stateDir);
+
+        // A project that does not exist yet means every resource will be created
+        let projectUuid = options.projectId || config.coolify?.projectId || state?.projectUuid;
+        if (!projectUuid) {
+          const projectName =
+            options.projectName || config.coolify?.projectName || deriveProjectName(filePath);
+          projectUuid = await findProjectUuid(client, projectName);
+          if (!projectUuid) {
+            log(`Project "${projectName}" does not exist yet`);
+          }
+        }
+
+        const githubRepo = options.githubRepo || config.github?.repository;
+        const buildPack = options.buildPack as 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose' | undefined;
+
+        const parameters = await resolveParameters(parseResult.app, {
+          values: config.parameters,
+          prompt: false,
+        });
+        printUnresolvedParameters(parameters);
+        const app = applyParameters(parseResult.app, parameters.values);
+
+        log('');
+        const diff = await diffDeployment(
+          client,
+          app,
+          {
+            projectUuid: projectUuid || '',
+            serverUuid: options.serverId || config.coolify?.serverId || state?.serverUuid || '',
+            environmentName,
+            github: githubRepo
+              ? {
+                  repository: githubRepo,
+                  branch: options.githubBranch || config.github?.branch,
+                  basePath: options.githubBasePath || config.github?.basePath,
+                  appUuid: options.githubAppUuid || config.github?.appUuid,
+                }
+              : undefined,
+            buildPack,
+            domains: config.domains,
+            mappings: config.mappings,
+            state,
+          },
+          { onProgress: log }
+        );
+
+        if (options.json) {
+          console.log(JSON.stringify(diff, null, 2));
+        } else {
+          console.log(`\nPlan for environment "${environmentName}":\n`);
+          console.log(formatDeploymentDiff(diff));
+        }
+
+        // Exit code 2 signals pending changes to CI pipelines
+        if (diff.hasChanges) {
+          process.exit(2);
+        }
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exit(1);
+      }
+    }
+  );
+
+// Destroy command
+program
+  .command('destroy <file>')
+  .description(
+    'Delete the Coolify resources created by deploy for an Aspire Program.cs file or manifest'
+  )
+  .option('-c, --config <file>', 'Config file path')
+  .option('--dry-run', 'List the resources that would be deleted without deleting them')
+  .option('--api-url <url>', 'Coolify API URL')
+  .option('--token <token>', 'Coolify API token')
+  .option('--project-id <id>', 'Coolify project UUID')
+  .option('--project-name <name>', 'Project name to look up when --project-id is not provided')
+  .option('--environment-name <name>', 'Coolify environment name (e.g., production)')
+  .option('--delete-volumes', 'Also delete the persistent volumes of the resources')
+  .option('--delete-project', 'Also delete the project once its resources are removed')
+  .option('--state-dir <dir>', 'Directory of the deployment state file (default: .aspire2coolify)')
+  .option('--request-timeout <seconds>', 'Timeout of each API request (0 disables it)', '30')
+  .option('--retries <n>', 'Retries of API requests failing with 429, 5xx or network errors', '3')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .option('--strict', 'Fail on Aspire methods the parser does not understand')
+  .action(
+    async (
+      file: string,
+      options: {
+        config?: string;
+        dryRun?: boolean;
+        apiUrl?: string;
+        token?: string;
+        projectId?: string;
+        projectName?: string;
+        environmentName?: string;
+        deleteVolumes?: boolean;
+        deleteProject?: boolean;
+        stateDir?: string;
+        requestTimeout: string;
+        retries: string;
+        yes?: boolean;
+        strict?: boolean;
+      }
+    ) => {
+      try {
+        const filePath = resolve(file);
+
+        if (!existsSync(filePath)) {
+          console.error(`Error: File not found: ${filePath}`);
+          process.exit(1);
+        }
+
+        const config = await loadCliConfig(options.config);
+
+        const apiUrl = await resolveApiUrl({
+          cliApiUrl: options.apiUrl,
+          configApiUrl: config.coolify?.apiUrl,
+        });
+        const token = await resolveToken({
+          cliToken: options.token,
+          configToken: config.coolify?.token,
+        });
+
+        const validation = validateCredentials({ apiUrl, token });
+        if (!validation.valid) {
+          console.error('\nConfiguration errors:');
+          for (const error of validation.errors) {
+            console.error(`  - ${error}`);
+          }
+          process.exit(1);
+        }
+
+        console.log(`Parsing: ${filePath}`);
+        const parseResult = parseFile(filePath, { strict: options.strict });
+
+        if (parseResult.errors.length > 0) {
+          console.error('\nParse Errors:');
+          for (const error of parseResult.errors) {
+            console.error(`  - ${formatParseMessage(filePath, error)}`);
+          }
+          process.exit(1);
+        }
+        printParseWarnings(filePath, parseResult.warnings);
+
+        const client = new CoolifyApiClient({
+          apiUrl: apiUrl!,
+          token: token!,
+          ...parseRequestOptions(options),
+        });
+        const environmentName =
+          options.environmentName || config.coolify?.environmentName || 'production';
+
+        const state = loadState(environmentName, options.stateDir);
+
+        // Resolve the project by UUID, or by name like deploy does
+        let projectUuid = options.projectId || config.coolify?.projectId || state?.projectUuid;
+        if (!projectUuid) {
+          const projectName =
+            options.projectName || config.coolify?.projectName || deriveProjectName(filePath);
+          projectUuid = await findProjectUuid(client, projectName);
+          if (!projectUuid) {
+            console.error(`  ✗ Project "${projectName}" not found`);
+            process.exit(1);
+          }
+        }
+
+        const destroyConfig = {
+          projectUuid,
+          environmentName,
+          deleteVolumes: options.deleteVolumes,
+          deleteProject: options.deleteProject,
+          mappings: config.mappings,
+          state,
+        };
+
+        console.log('');
+        const targets = await findDestroyTargets(client, parseResult.app, destroyConfig);
+
+        if (targets.length === 0 && !options.deleteProject) {
+          console.log('\nNothing to destroy.');
+          return;
+        }
+
+        console.log(`\nThe following resources will be deleted from "${environmentName}":`);
+        for (const target of targets) {
+          console.log(`  - ${target.resourceType}: ${target.name} (uuid: ${target.uuid})`);
+        }
+        if (options.deleteVolumes) {
+          console.log('  - persistent volumes of the resources above');
+        }
+        if (options.deleteProject) {
+          console.log(`  - project ${projectUuid}`);
+        }
+
+        if (!options.dryRun && !options.yes) {
+          if (!process.stdin.isTTY) {
+            console.error('\nRefusing to delete resources without confirmation (use --yes)');
+            process.exit(1);
+          }
+          const confirmed = await promptConfirmation('\nDelete these resources?');
+          if (!confirmed) {
+            console.log('Aborted.');
+            return;
+          }
+        }
+
+        console.log('');
+        const destroyResult = await destroyFromCoolify(client, targets, destroyConfig, {
+          dryRun: options.dryRun,
+        });
+
+        // Deleted resources no longer belong in the state
+        if (state && !options.dryRun) {
+          const deleted = destroyResult.results.filter((r) => r.success);
+          const nextState = forgetResources(
+            state,
+            deleted.filter((r) => r.resourceType !== 'project').map((r) => r.name)
+          );
+          if (deleted.some((r) => r.resourceType === 'project')) {
+            nextState.projectUuid = undefined;
+          }
+          saveState(nextState, options.stateDir);
+        }
+
+        console.log('\n' + '─'.repeat(50));
+        console.log('Destroy Summary:');
+        console.log(`  ✓ Deleted: ${destroyResult.successful}`);
+        console.log(`  ✗ Failed: ${destroyResult.failed}`);
+
+        if (destroyResult.failed > 0) {
+          console.log('\nFailed resources:');
+          for (const result of destroyResult.results.filter((r) => !r.success)) {
+            console.log(`  - ${result.name}: ${result.error}`);
+          }
+          process.exit(1);
+        }
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exit(1);
+      }
+    }
+  );
+
+// State command
+const stateCommand = program
+  .command('state')
+  .description('Inspect or edit the deployment state mapping Aspire resources to Coolify UUIDs');
+
+stateCommand
+  .command('list')
+  .description('List the resources recorded for an environment')
+  .option('-c, --config <file>', 'Config file path')
+  .option('--environment-name <name>', 'Coolify environment name (e.g., production)')
+  .option('--state-dir <dir>', 'Directory of the deployment state file (default: .aspire2coolify)')
+  .option('--json', 'Output the state as JSON')
+  .action(
+    async (options: {
+      config?: string;
+      environmentName?: string;
+      stateDir?: string;
+      json?: boolean;
+    }) => {
+      try {
+        const config = await loadCliConfig(options.config);
+        const environmentName =
+          options.environmentName || config.coolify?.environmentName || 'production';
+        const state = loadState(environmentName, options.stateDir);
+
+        if (options.json) {
+          console.log(JSON.stringify(state ?? createEmptyState(environmentName), null, 2));
+          return;
+        }
+
+        if (!state) {
+          console.log(`No state recorded for environment "${environmentName}".`);
+          return;
+        }
+
+        console.log(`State: ${getStatePath(environmentName, options.stateDir)}`);
+        console.log(`  Project: ${state.projectUuid || '(none)'}`);
+        console.log(`  Server: ${state.serverUuid || '(none)'}`);
+        console.log(`  Environment: ${state.environmentName}`);
+
+        const entries = Object.entries(state.resources);
+        console.log(`\nResources (${entries.length}):`);
+        for (const [name, resource] of entries) {
+          console.log(`  - ${resource.type}: ${name} (uuid: ${resource.uuid})`);
+        }
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exit(1);
+      }
+    }
+  );
+
+stateCommand
+  .command('import <name> <uuid>')
+  .description('Record an existing Coolify resource for an Aspire resource')
+  .requiredOption('--type <type>', `Resource type (${STATE_RESOURCE_TYPES.join(', ')})`)
+  .option('-c, --config <file>', 'Config file path')
+  .option('--environment-name <name>', 'Coolify environment name (e.g., production)')
+  .option('--project-id <id>', 'Coolify project UUID to record with the state')
+  .option('--state-dir <dir>', 'Directory of the deployment state file (default: .aspire2coolify)')
+  .action(
+    async (
+      name: string,
+      uuid: string,
+      options: {
+        type: string;
+        config?: string;
+        environmentName?: string;
+        projectId?: string;
+        stateDir?: string;
+      }
+    ) => {
+      try {
+        if (!STATE_RESOURCE_TYPES.includes(options.type as StateResourceType)) {
+          console.error(
+            `Error: Invalid resource type "${options.type}" (expected ${STATE_RESOURCE_TYPES.join(', ')})`
+          );
+          process.exit(1);
+        }
+
+        const config = await loadCliConfig(options.config);
+        const environmentName =
+          options.environmentName || config.coolify?.environmentName || 'production';
+        const state =
+          loadState(environmentName, options.stateDir) ?? createEmptyState(environmentName);
+
+        const nextState = importResource(state, name, options.type as StateResourceType, uuid);
+        nextState.projectUuid = options.projectId || config.coolify?.projectId || state.projectUuid;
+
+        const statePath = saveState(nextState, options.stateDir);
+        console.log(`Imported ${options.type} "${name}" (uuid: ${uuid}) into ${statePath}`);
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exit(1);
+      }
+    }
+  );
+
+stateCommand
+  .command('forget <name>')
+  .description('Remove a resource from the state without deleting it in Coolify')
+  .option('-c, --config <file>', 'Config file path')
+  .option('--environment-name <name>', 'Coolify environment name (e.g., production)')
+  .option('--state-dir <dir>', 'Directory of the deployment state file (default: .aspire2coolify)')
+  .action(
+    async (
+      name: string,
+      options: { config?: string; environmentName?: string; stateDir?: string }
+    ) => {
+      try {
+        const config = await loadCliConfig(options.config);
+        const environmentName =
+          options.environmentName || config.coolify?.environmentName || 'production';
+        const state = loadState(environmentName, options.stateDir);
+
+        if (!state?.resources[name]) {
+          console.error(
+            `Error: No resource "${name}" in the state of environment "${environmentName}"`
+          );
+          process.exit(1);
+        }
+
+        saveState(forgetResources(state, [name]), options.stateDir);
+        console.log(
+          `Forgot ${state.resources[name].type} "${name}" (uuid: ${state.resources[name].uuid})`
+        );
+      } catch (err) {
+        console.error(`Error: ${err instanceof Error ? err.message : err}`);
+        process.exit(1);
+      }
+    }
+  );
+
 // Init command
 program
   .command('init')
@@ -11,17 +11,29 @@ export interface GitHubSourceConfig {
   appUuid?: string; // GitHub App UUID for private repositories
 }
 
+export interface DomainsConfig {
+  baseDomain?: string;
+  pattern?: string; // e.g. '{name}.{env}.{baseDomain}' (default: '{name}.{baseDomain}')
+  overrides?: Record<string, string>; // Application name -> domain
+}
+
 export interface Aspire2CoolifyConfig {
   coolify?: {
     projectId?: string;
+    projectName?: string;
     serverId?: string;
     environmentId?: string;
     environmentName?: string;
     apiUrl?: string;
     token?: string;
     skipExisting?: boolean;
+    updateExisting?: boolean;
+    rollbackOnFailure?: boolean;
   };
   github?: GitHubSourceConfig;
+  domains?: DomainsConfig;
+  parameters?: Record<string, string>; // AddParameter name -> value
+  connectionStrings?: Record<string, string>; // AddConnectionString name -> value
   mappings?: {
     databases?: Record<string, string>;
     services?: Record<string, string>;
@@ -91,6 +103,8 @@ export default {
     // serverId: 'your-server-uuid',
     // environmentName: 'production', // e.g., 'production', 'staging'
     // skipExisting: false, // Skip resources that already exist instead of failing
+    // updateExisting: false, // Update drifted settings of existing resources
+    // rollbackOnFailure: false, // Delete the resources created by a deploy that fails
   },
   // GitHub source configuration (optional)
   // When set, applications will be created with this GitHub repository as the source
@@ -100,6 +114,21 @@ export default {
     // basePath: '', // base path within the repository (optional)
     // appUuid: '', // GitHub App UUID for private repositories (from Coolify's Sources page)
   },
+  // Domains of applications with external endpoints (served over https)
+  domains: {
+    // baseDomain: 'example.com',
+    // pattern: '{name}.{env}.{baseDomain}', // default: '{name}.{baseDomain}'
+    // overrides: { api: 'api.example.com' },
+  },
+  // AddParameter values (Parameters__<name> env vars take precedence)
+  // Keep secrets out of this file: they are prompted for when missing
+  parameters: {
+    // 'api-base-url': 'https://api.example.com',
+  },
+  // AddConnectionString values (ConnectionStrings__<name> env vars take precedence)
+  connectionStrings: {
+    // payments: 'Host=payments.example.com;Database=payments',
+  },
   mappings: {
     // Custom database type mappings
     databases: {
@@ -109,6 +138,10 @@ export default {
     services: {
       // 'maildev': 'mailpit',
     },
+    // Custom build pack mappings
+    buildPacks: {
+      // 'node': 'static',
+    },
   },
   defaults: {
     buildPack: 'nixpacks',
@@ -2,63 +2,45 @@
  * Application command generator for Coolify API
  */
 
-import type { Application, AspireApp } from '../../models/aspire.js';
+import type { Application } from '../../models/aspire.js';
 import type { CoolifyApplicationCommand, CoolifyBuildPack } from '../../models/coolify.js';
+import { buildApplicationPayload, type ApplicationCreation } from '../../plan/index.js';
+import { toPlanConfig, type GeneratorOptions } from './placeholders.js';
 
 const ASPIRE_TO_COOLIFY_BUILDPACK: Record<string, CoolifyBuildPack> = {
   nixpacks: 'nixpacks',
   dockerfile: 'dockerfile',
   static: 'static',
   node: 'nixpacks',
+  dockercompose: 'docker-compose',
 };
 
-export interface ApplicationGeneratorOptions {
-  serverUuid?: string;
-  projectUuid?: string;
-  environmentName?: string;
-  instantDeploy?: boolean;
-}
+export type ApplicationGeneratorOptions = GeneratorOptions;
 
 export function generateApplicationCommand(
   app: Application,
-  aspireApp: AspireApp,
   options: ApplicationGeneratorOptions = {}
 ): CoolifyApplicationCommand {
-  const buildPack = ASPIRE_TO_COOLIFY_BUILDPACK[app.buildPack] || 'nixpacks';
-
-  // Determine ports to expose
-  const ports: number[] = [];
-  for (const endpoint of app.endpoints) {
-    const port = endpoint.targetPort || endpoint.port;
-    if (port) {
-      ports.push(port);
-    }
-  }
-  const portsExposes = ports.length > 0 ? ports.join(',') : '80';
-
-  // Use docker image endpoint for now (most common case)
-  // The user will need to configure the actual image or git source in Coolify
-  const imageName = app.project || app.name;
-
-  // Build the API payload
-  const payload: Record<string, unknown> = {
-    server_uuid: options.serverUuid || '${SERVER_UUID}',
-    project_uuid: options.projectUuid || '${PROJECT_UUID}',
-    environment_name: options.environmentName || '${ENVIRONMENT_NAME}',
-    docker_registry_image_name: imageName,
-    docker_registry_image_tag: 'latest',
-    name: app.name,
-    ports_exposes: portsExposes,
-    instant_deploy: options.instantDeploy ?? false, // Don't auto-deploy, user may need to configure
-  };
+  return renderApplicationCommand(app, buildApplicationPayload(app, toPlanConfig(options)));
+}
 
-  // For now, use dockerimage endpoint as placeholder
-  // TODO: Support dockerfile endpoint when dockerfile content is available
+/**
+ * Render the planned creation request of an application: a GitHub source when configured,
+ * otherwise a Docker image placeholder to configure in Coolify
+ */
+export function renderApplicationCommand(
+  app: Application,
+  creation: ApplicationCreation
+): CoolifyApplicationCommand {
+  const buildPack =
+    creation.source === 'dockerimage'
+      ? ASPIRE_TO_COOLIFY_BUILDPACK[app.buildPack] || 'nixpacks'
+      : ASPIRE_TO_COOLIFY_BUILDPACK[creation.payload.build_pack];
 
   return {
-    endpoint: '/applications/dockerimage',
+    endpoint: `/applications/${creation.source}`,
     method: 'POST',
-    payload,
+    payload: { ...creation.payload },
     name: app.name,
     resourceType: 'application',
     buildPack,
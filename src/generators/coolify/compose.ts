@@ -0,0 +1,235 @@
+/**
+ * Docker Compose synthesis for containers without a Coolify one-click service template
+ */
+
+import type {
+  Endpoint,
+  EnvironmentVariable,
+  Service,
+  SqlServerInstance,
+} from '../../models/aspire.js';
+
+export const SQL_SERVER_IMAGE = 'mcr.microsoft.com/mssql/server';
+export const SQL_SERVER_DEFAULT_TAG = '2022-latest';
+export const SQL_SERVER_PORT = 1433;
+// Generated by Coolify when the service is created, and readable through the env API
+export const SQL_SERVER_PASSWORD_ENV = 'SERVICE_PASSWORD_64_MSSQL';
+
+const SQLCMD = '/opt/mssql-tools18/bin/sqlcmd -C -U sa -P "$${MSSQL_SA_PASSWORD}" -b';
+
+export interface ComposeOptions {
+  extraEnvironmentKeys?: string[]; // Variables injected at deploy time (e.g. WithReference)
+}
+
+/**
+ * Build a single-service compose document for an AddContainer resource.
+ * Strings are written as JSON, which YAML reads as double-quoted scalars.
+ */
+export function buildComposeDocument(service: Service, options: ComposeOptions = {}): string {
+  if (!service.image) {
+    throw new Error(`Container "${service.name}" has no image`);
+  }
+
+  const serviceName = toComposeName(service.name);
+  const image = resolveImage(service.image, service.imageTag);
+  const lines = ['services:', `  ${serviceName}:`, `    image: ${quote(image)}`];
+
+  const environment = buildEnvironment(
+    service.environment,
+    service.endpoints,
+    serviceName,
+    options
+  );
+  if (environment.length > 0) {
+    lines.push('    environment:', ...environment.map((entry) => `      - ${quote(entry)}`));
+  }
+
+  const containerPorts = getContainerPorts(service);
+  if (service.hostPort) {
+    const target = containerPorts[0] ?? service.hostPort;
+    lines.push('    ports:', `      - ${quote(`${service.hostPort}:${target}`)}`);
+  }
+  if (containerPorts.length > 0) {
+    lines.push('    expose:', ...containerPorts.map((port) => `      - ${quote(String(port))}`));
+  }
+
+  const namedVolumes: string[] = [];
+  const mounts: string[] = [];
+  for (const volume of service.volumes) {
+    if (!volume.mountPath?.startsWith('/')) {
+      continue; // Data volumes of custom containers need an explicit target path
+    }
+    const mode = volume.isReadOnly ? ':ro' : '';
+    if (volume.isData) {
+      // Anonymous volumes are named after their mount path, each gets its own Docker volume
+      const volumeName = toComposeName(volume.name || `${service.name}${volume.mountPath}`);
+      if (!namedVolumes.includes(volumeName)) {
+        namedVolumes.push(volumeName);
+      }
+      mounts.push(`${volumeName}:${volume.mountPath}${mode}`);
+    } else if (volume.name) {
+      mounts.push(`${volume.name}:${volume.mountPath}${mode}`);
+    }
+  }
+  if (mounts.length > 0) {
+    lines.push('    volumes:', ...mounts.map((mount) => `      - ${quote(mount)}`));
+  }
+  if (namedVolumes.length > 0) {
+    lines.push('volumes:', ...namedVolumes.map((name) => `  ${name}: {}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Build the compose document of a SQL Server instance. The SA password is generated by
+ * Coolify; a one-shot init container creates the databases once the server is healthy.
+ */
+export function buildSqlServerComposeDocument(
+  instance: SqlServerInstance,
+  options: ComposeOptions = {}
+): string {
+  const serviceName = toComposeName(instance.name);
+  const image = quote(
+    resolveImage(
+      instance.image ?? SQL_SERVER_IMAGE,
+      instance.imageTag ?? (instance.image ? undefined : SQL_SERVER_DEFAULT_TAG)
+    )
+  );
+  const password = `MSSQL_SA_PASSWORD=\${${SQL_SERVER_PASSWORD_ENV}}`;
+
+  const environment = [
+    'ACCEPT_EULA=Y',
+    password,
+    ...buildEnvironment(instance.environment, [], serviceName, options),
+  ];
+
+  const lines = [
+    'services:',
+    `  ${serviceName}:`,
+    `    image: ${image}`,
+    '    environment:',
+    ...environment.map((entry) => `      - ${quote(entry)}`),
+  ];
+  if (instance.hostPort) {
+    lines.push('    ports:', `      - ${quote(`${instance.hostPort}:${SQL_SERVER_PORT}`)}`);
+  }
+  lines.push('    expose:', `      - ${quote(String(SQL_SERVER_PORT))}`);
+  if (instance.hasDataVolume) {
+    lines.push('    volumes:', `      - ${quote(`${serviceName}-data:/var/opt/mssql`)}`);
+  }
+  lines.push(
+    '    healthcheck:',
+    `      test: ${JSON.stringify(['CMD-SHELL', `${SQLCMD} -S localhost -Q "SELECT 1" -o /dev/null`])}`,
+    '      interval: "10s"',
+    '      timeout: "5s"',
+    '      retries: 10',
+    '      start_period: "20s"'
+  );
+
+  if (instance.databases.length > 0) {
+    const statements = instance.databases
+      .map((db) => {
+        const literal = db.name.replace(/'/g, "''");
+        const identifier = db.name.replace(/]/g, ']]');
+        return `IF DB_ID(N'${literal}') IS NULL CREATE DATABASE [${identifier}];`;
+      })
+      .join(' ');
+
+    lines.push(
+      `  ${serviceName}-init:`,
+      `    image: ${image}`,
+      '    depends_on:',
+      `      ${serviceName}:`,
+      '        condition: service_healthy',
+      '    environment:',
+      `      - ${quote(password)}`,
+      `    command: ${JSON.stringify(['/bin/bash', '-c', `${SQLCMD} -S ${serviceName} -Q "${statements}"`])}`,
+      '    restart: "no"',
+      '    exclude_from_hc: true'
+    );
+  }
+
+  if (instance.hasDataVolume) {
+    lines.push('volumes:', `  ${serviceName}-data: {}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Hostname of a compose service on the Coolify network: Coolify suffixes container
+ * names with the service UUID
+ */
+export function getComposeHostname(resourceName: string, serviceUuid: string): string {
+  return `${toComposeName(resourceName)}-${serviceUuid}`;
+}
+
+/**
+ * Encode a compose document for the docker_compose_raw field, which Coolify expects in base64
+ */
+export function encodeComposeDocument(document: string): string {
+  return Buffer.from(document, 'utf-8').toString('base64');
+}
+
+/**
+ * Combine the image and WithImageTag, replacing a tag embedded in the image
+ */
+function resolveImage(image: string, imageTag: string | undefined): string {
+  if (!imageTag) {
+    return image;
+  }
+
+  // A colon after the last slash starts the tag (a colon before it is a registry port)
+  const tagStart = image.lastIndexOf(':');
+  const name = tagStart > image.lastIndexOf('/') ? image.slice(0, tagStart) : image;
+  return `${name}:${imageTag}`;
+}
+
+function buildEnvironment(
+  environment: EnvironmentVariable[],
+  endpoints: Endpoint[],
+  serviceName: string,
+  options: ComposeOptions
+): string[] {
+  const entries: string[] = [];
+  const keys = new Set<string>();
+
+  // Every variable reads the Coolify environment variable of the same name, set through the API
+  for (const env of environment) {
+    keys.add(env.key);
+    entries.push(`${env.key}=\${${env.key}}`);
+  }
+
+  for (const key of options.extraEnvironmentKeys ?? []) {
+    if (!keys.has(key)) {
+      keys.add(key);
+      entries.push(`${key}=\${${key}}`);
+    }
+  }
+
+  // Coolify generates a domain and proxies it to the port of SERVICE_FQDN_<NAME>_<PORT>
+  for (const endpoint of endpoints) {
+    const port = endpoint.targetPort ?? endpoint.port;
+    if (endpoint.isExternal && port && endpoint.protocol !== 'tcp' && endpoint.protocol !== 'udp') {
+      entries.push(`SERVICE_FQDN_${serviceName.toUpperCase().replace(/-/g, '_')}_${port}`);
+    }
+  }
+
+  return entries;
+}
+
+function getContainerPorts(service: Service): number[] {
+  const ports = service.endpoints
+    .map((endpoint) => endpoint.targetPort ?? endpoint.port)
+    .filter((port): port is number => port !== undefined);
+  return [...new Set(ports)];
+}
+
+function toComposeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]/g, '-');
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
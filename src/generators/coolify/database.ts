@@ -3,56 +3,42 @@
  */
 
 import type { Database } from '../../models/aspire.js';
-import type { CoolifyDatabaseCommand, CoolifyDatabaseType } from '../../models/coolify.js';
+import type { CoolifyDatabaseCommand } from '../../models/coolify.js';
+import {
+  buildDatabasePayload,
+  getCoolifyDatabaseType,
+  type DatabaseCreation,
+} from '../../plan/index.js';
+import { toPlanConfig, type GeneratorOptions } from './placeholders.js';
 
-const ASPIRE_TO_COOLIFY_DB: Record<string, CoolifyDatabaseType> = {
-  postgres: 'postgresql',
-  sqlserver: 'postgresql', // Coolify doesn't have native SQL Server, use PostgreSQL as fallback
-  mysql: 'mysql',
-  mongodb: 'mongodb',
-  redis: 'redis',
-};
-
-export interface DatabaseGeneratorOptions {
-  serverUuid?: string;
-  projectUuid?: string;
-  environmentName?: string;
-  instantDeploy?: boolean;
-}
+export type DatabaseGeneratorOptions = GeneratorOptions;
 
 export function generateDatabaseCommand(
   db: Database,
   options: DatabaseGeneratorOptions = {}
 ): CoolifyDatabaseCommand {
-  const coolifyType = ASPIRE_TO_COOLIFY_DB[db.type] || 'postgresql';
-
-  // Build the API payload
-  const payload: Record<string, unknown> = {
-    server_uuid: options.serverUuid || '${SERVER_UUID}',
-    project_uuid: options.projectUuid || '${PROJECT_UUID}',
-    environment_name: options.environmentName || '${ENVIRONMENT_NAME}',
-    name: db.name,
-    instant_deploy: options.instantDeploy ?? true,
-  };
-
-  // Add custom image if specified
-  if (db.image) {
-    payload.image = db.imageTag ? `${db.image}:${db.imageTag}` : db.image;
-  }
-
-  // Add public port if specified
-  if (db.hostPort) {
-    payload.is_public = true;
-    payload.public_port = db.hostPort;
-  }
+  // Types Coolify has no database for fall back to PostgreSQL
+  const databaseType = getCoolifyDatabaseType(db.type) ?? 'postgresql';
+  return renderDatabaseCommand(db, {
+    databaseType,
+    payload: buildDatabasePayload(db, toPlanConfig(options)),
+  });
+}
 
+/**
+ * Render the planned creation request of a database
+ */
+export function renderDatabaseCommand(
+  db: Database,
+  creation: DatabaseCreation
+): CoolifyDatabaseCommand {
   return {
-    endpoint: `/databases/${coolifyType}`,
+    endpoint: `/databases/${creation.databaseType}`,
     method: 'POST',
-    payload,
+    payload: { ...creation.payload },
     name: db.name,
     resourceType: 'database',
-    databaseType: coolifyType,
+    databaseType: creation.databaseType,
     comment: `Database: ${db.name} (${db.type})`,
   };
 }
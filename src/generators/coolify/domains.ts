@@ -0,0 +1,60 @@
+/**
+ * Domains - Resolves the Coolify domains of externally exposed applications
+ */
+
+import type { Application } from '../../models/aspire.js';
+
+export interface DomainStrategy {
+  baseDomain?: string;
+  pattern?: string; // Placeholders: {name}, {env}, {baseDomain}
+  overrides?: Record<string, string>; // Application name -> domain
+}
+
+export const DEFAULT_DOMAIN_PATTERN = '{name}.{baseDomain}';
+
+/**
+ * Resolve the https FQDN of an application with external endpoints.
+ * Internal-only applications, and applications without an override when no base domain
+ * is configured, get no domain.
+ */
+export function resolveApplicationDomain(
+  application: Application,
+  strategy: DomainStrategy | undefined,
+  environmentName: string
+): string | undefined {
+  const external = application.endpoints.find((e) => e.isExternal);
+  if (!strategy || !external) {
+    return undefined;
+  }
+
+  const override = strategy.overrides?.[application.name];
+  let host: string;
+  if (override) {
+    host = override;
+  } else if (strategy.baseDomain) {
+    host = (strategy.pattern || DEFAULT_DOMAIN_PATTERN)
+      .replace(/\{name\}/g, toHostLabel(application.name))
+      .replace(/\{env\}/g, toHostLabel(environmentName))
+      .replace(/\{baseDomain\}/g, strategy.baseDomain);
+  } else {
+    return undefined;
+  }
+
+  const url = /^https?:\/\//.test(host) ? host : `https://${host}`;
+
+  // Coolify proxies the domain to the first exposed port unless the domain names another one
+  const exposed = application.endpoints
+    .map((e) => e.targetPort || e.port)
+    .find((p): p is number => p !== undefined);
+  const port = external.targetPort || external.port;
+  return port && exposed !== undefined && port !== exposed && !/:\d+$/.test(url)
+    ? `${url}:${port}`
+    : url;
+}
+
+function toHostLabel(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
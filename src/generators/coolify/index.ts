@@ -3,11 +3,31 @@
  */
 
 import type { AspireApp } from '../../models/aspire.js';
-import type { CoolifyCommand, CoolifyOutput } from '../../models/coolify.js';
+import { findConnectionString } from '../../models/aspire.js';
+import type {
+  CoolifyCommand,
+  CoolifyEnvironmentCommand,
+  CoolifyOutput,
+} from '../../models/coolify.js';
 import { formatOutput } from '../../models/coolify.js';
-import { generateDatabaseCommand } from './database.js';
-import { generateServiceCommand, generateStorageCommand } from './service.js';
-import { generateApplicationCommand } from './application.js';
+import { createConnectionStringEnvironment, resolveEnvironment } from '../../api/environment.js';
+import {
+  buildDeploymentPlan,
+  type DeploymentPlan,
+  type GitHubConfig,
+  type PlannedResource,
+} from '../../plan/index.js';
+import { renderDatabaseCommand } from './database.js';
+import { renderServiceCommand, renderSqlServerCommand, renderStorageCommand } from './service.js';
+import { renderApplicationCommand } from './application.js';
+import type { DomainStrategy } from './domains.js';
+import { InvalidMappingError, type AppliedMapping, type TypeMappings } from './mappings.js';
+import {
+  toConnectionStringVariable,
+  toParameterVariable,
+  toPlanConfig,
+  toUuidVariable,
+} from './placeholders.js';
 
 export interface GenerateOptions {
   includeComments?: boolean;
@@ -17,16 +37,33 @@ export interface GenerateOptions {
   environmentId?: string;
   environmentName?: string;
   instantDeploy?: boolean;
+  github?: GitHubConfig;
+  buildPack?: 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose';
+  domains?: DomainStrategy;
+  mappings?: TypeMappings;
 }
 
 export interface GenerateResult {
   commands: CoolifyCommand[];
   script: string;
   errors: string[];
+  mappings: AppliedMapping[]; // Type mappings applied to each resource
 }
 
 /**
- * Generate Coolify API commands from an Aspire application model
+ * Log labels of each resource kind in generation errors
+ */
+const KIND_LABELS: Record<PlannedResource['kind'], string> = {
+  database: 'database',
+  sqlserver: 'SQL Server',
+  storage: 'storage',
+  service: 'service',
+  application: 'application',
+};
+
+/**
+ * Generate Coolify API commands from an Aspire application model.
+ * The commands render the same deployment plan the deployer executes.
  */
 export function generate(app: AspireApp, options: GenerateOptions = {}): GenerateResult {
   const commands: CoolifyCommand[] = [];
@@ -36,6 +73,29 @@ export function generate(app: AspireApp, options: GenerateOptions = {}): Generat
   const needsProjectCreation = !options.projectId;
   const projectUuidValue = needsProjectCreation ? '$PROJECT_UUID' : options.projectId;
 
+  // User mappings take precedence over the built-in Aspire to Coolify types
+  let plan: DeploymentPlan;
+  try {
+    plan = buildDeploymentPlan(app, {
+      ...toPlanConfig({
+        serverUuid: options.serverId,
+        projectUuid: projectUuidValue,
+        environmentName: options.environmentName || options.environmentId,
+        instantDeploy: options.instantDeploy,
+        github: options.github,
+        buildPack: options.buildPack,
+        domains: options.domains,
+      }),
+      mappings: options.mappings,
+    });
+  } catch (err) {
+    const planErrors =
+      err instanceof InvalidMappingError
+        ? err.errors
+        : [err instanceof Error ? err.message : String(err)];
+    return { commands, script: '', errors: planErrors, mappings: [] };
+  }
+
   // Add project creation command if needed
   if (needsProjectCreation && options.projectName) {
     const projectCommand: CoolifyCommand = {
@@ -51,63 +111,30 @@ export function generate(app: AspireApp, options: GenerateOptions = {}): Generat
     commands.push(projectCommand);
   }
 
-  // Common options for all generators
-  const generatorOptions = {
-    serverUuid: options.serverId,
-    projectUuid: projectUuidValue,
-    environmentName: options.environmentName || options.environmentId,
-    instantDeploy: options.instantDeploy,
-  };
-
-  // Generate database commands first (they need to exist before apps reference them)
-  for (const db of app.databases) {
-    try {
-      const cmd = generateDatabaseCommand(db, generatorOptions);
-      if (!options.includeComments) {
-        delete cmd.comment;
-      }
-      commands.push(cmd);
-    } catch (err) {
-      errors.push(`Failed to generate database command for ${db.name}: ${err}`);
+  // Resources come in dependency order: databases before the applications referencing them
+  for (const resource of plan.resources) {
+    const cmd = renderCommand(resource);
+    if (!cmd) {
+      errors.push(
+        `Failed to generate ${KIND_LABELS[resource.kind]} command for ${resource.name}: ${resource.error}`
+      );
+      continue;
     }
-  }
 
-  // Generate storage service commands
-  for (const storage of app.storage) {
-    try {
-      const cmd = generateStorageCommand(storage, generatorOptions);
-      if (!options.includeComments) {
-        delete cmd.comment;
-      }
-      commands.push(cmd);
-    } catch (err) {
-      errors.push(`Failed to generate storage command for ${storage.name}: ${err}`);
+    if (resource.mapping) {
+      cmd.comment += `, mapped from ${resource.mapping.from}`;
     }
-  }
-
-  // Generate other service commands
-  for (const service of app.services) {
-    try {
-      const cmd = generateServiceCommand(service, generatorOptions);
-      if (!options.includeComments) {
-        delete cmd.comment;
-      }
-      commands.push(cmd);
-    } catch (err) {
-      errors.push(`Failed to generate service command for ${service.name}: ${err}`);
+    if (!options.includeComments) {
+      delete cmd.comment;
     }
-  }
+    commands.push(cmd);
 
-  // Generate application commands last (they reference other resources)
-  for (const application of app.applications) {
-    try {
-      const cmd = generateApplicationCommand(application, app, generatorOptions);
+    const envCmd = renderEnvironmentCommand(plan.app, resource, cmd);
+    if (envCmd) {
       if (!options.includeComments) {
-        delete cmd.comment;
+        delete envCmd.comment;
       }
-      commands.push(cmd);
-    } catch (err) {
-      errors.push(`Failed to generate application command for ${application.name}: ${err}`);
+      commands.push(envCmd);
     }
   }
 
@@ -122,10 +149,83 @@ export function generate(app: AspireApp, options: GenerateOptions = {}): Generat
     commands,
     script: output.script,
     errors,
+    mappings: plan.mappings,
+  };
+}
+
+function renderCommand(resource: PlannedResource): CoolifyCommand | undefined {
+  if (!resource.request) {
+    return undefined;
+  }
+  switch (resource.kind) {
+    case 'database':
+      return renderDatabaseCommand(resource.resource, resource.request);
+    case 'sqlserver':
+      return renderSqlServerCommand(resource.resource, resource.request);
+    case 'storage':
+      return renderStorageCommand(resource.resource, resource.request);
+    case 'service':
+      return renderServiceCommand(resource.resource, resource.request);
+    case 'application':
+      return renderApplicationCommand(resource.resource, resource.request);
+  }
+}
+
+/**
+ * Set the explicit environment of a created service or application, as the deployer does.
+ * The creation command captures the UUID the update is sent to. Reference variables
+ * (connection strings, service discovery) are only known at deploy time, except those of
+ * AddConnectionString resources.
+ */
+function renderEnvironmentCommand(
+  app: AspireApp,
+  resource: PlannedResource,
+  created: CoolifyCommand
+): CoolifyEnvironmentCommand | undefined {
+  if (resource.kind === 'database') {
+    return undefined;
+  }
+
+  // Secret and missing parameter values are read from the environment of the script
+  const environment = resource.resource.environment.map((env) =>
+    env.parameter && (env.isSecret || env.isExpression)
+      ? { ...env, value: `$${toParameterVariable(env.parameter)}`, isExpression: false }
+      : env
+  );
+  const { variables } = resolveEnvironment(environment);
+
+  // Connection strings managed outside Coolify are read from the environment of the script too
+  for (const reference of app.references) {
+    const target = reference.from === resource.name && findConnectionString(app, reference.to);
+    if (target) {
+      const value = `$${toConnectionStringVariable(target.name)}`;
+      variables.push(...createConnectionStringEnvironment(reference, value));
+    }
+  }
+
+  if (variables.length === 0) {
+    return undefined;
+  }
+
+  const uuidVariable = toUuidVariable(resource.name);
+  created.uuidVariable = uuidVariable;
+  const target = resource.kind === 'application' ? 'applications' : 'services';
+
+  return {
+    endpoint: `/${target}/\${${uuidVariable}}/envs/bulk`,
+    method: 'PATCH',
+    payload: { data: variables },
+    name: resource.name,
+    resourceType: 'environment',
+    comment: `Environment: ${resource.name}`,
   };
 }
 
 // Re-export sub-generators
 export { generateDatabaseCommand } from './database.js';
-export { generateServiceCommand, generateStorageCommand } from './service.js';
+export {
+  generateServiceCommand,
+  generateStorageCommand,
+  generateSqlServerCommand,
+} from './service.js';
 export { generateApplicationCommand } from './application.js';
@@ -0,0 +1,241 @@
+/**
+ * Type mappings - User overrides of the Coolify type each Aspire resource is deployed as
+ */
+
+import {
+  getConnectionStringEnvName,
+  type AspireApp,
+  type BuildPack,
+  type DatabaseType,
+  type Service,
+  type ServiceType,
+  type StorageService,
+} from '../../models/aspire.js';
+
+export interface TypeMappings {
+  databases?: Record<string, string>; // Aspire database type -> Coolify database type
+  services?: Record<string, string>; // Aspire service type -> Coolify service type
+  buildPacks?: Record<string, string>; // Aspire build pack -> Coolify build pack
+}
+
+export interface AppliedMapping {
+  name: string;
+  resourceType: 'database' | 'service' | 'application';
+  from: string;
+  to: string;
+}
+
+export interface MappedApp {
+  app: AspireApp;
+  applied: AppliedMapping[];
+}
+
+export class InvalidMappingError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid mappings: ${errors.join('; ')}`);
+    this.name = 'InvalidMappingError';
+  }
+}
+
+const DATABASE_TYPES: DatabaseType[] = [
+  'postgres',
+  'sqlserver',
+  'mysql',
+  'mariadb',
+  'mongodb',
+  'redis',
+  'valkey',
+  'garnet',
+  'keydb',
+  'dragonfly',
+  'clickhouse',
+];
+
+const SERVICE_TYPES: ServiceType[] = [
+  'redis',
+  'rabbitmq',
+  'minio',
+  'keycloak',
+  'seq',
+  'maildev',
+  'mongodb',
+  'mysql',
+  'mariadb',
+  'kafka',
+  'elasticsearch',
+  'custom',
+];
+
+// Service types the parser always models as databases, which mappings.services never reaches
+const DATABASE_SERVICE_TYPES: ServiceType[] = ['redis', 'mongodb', 'mysql', 'mariadb'];
+
+const BUILD_PACKS: BuildPack[] = ['nixpacks', 'dockerfile', 'static', 'node', 'dockercompose'];
+
+// Coolify types a mapping can target, with the Aspire type deployed as each of them
+const DATABASE_TARGETS: Record<string, DatabaseType> = {
+  postgresql: 'postgres',
+  postgres: 'postgres',
+  mysql: 'mysql',
+  mariadb: 'mariadb',
+  mongodb: 'mongodb',
+  redis: 'redis',
+  keydb: 'keydb',
+  dragonfly: 'dragonfly',
+  clickhouse: 'clickhouse',
+};
+
+const SERVICE_TARGETS: Record<string, ServiceType> = {
+  rabbitmq: 'rabbitmq',
+  minio: 'minio',
+  'minio-community-edition': 'minio',
+  keycloak: 'keycloak',
+  seq: 'seq',
+  mailpit: 'maildev',
+  kafka: 'kafka',
+  elasticsearch: 'elasticsearch',
+  custom: 'custom', // docker-compose from the container image
+};
+
+const BUILD_PACK_TARGETS: Record<string, BuildPack> = {
+  nixpacks: 'nixpacks',
+  dockerfile: 'dockerfile',
+  static: 'static',
+  dockercompose: 'dockercompose',
+};
+
+/**
+ * Check the sources and targets of the configured mappings.
+ * Returns one message per unknown Aspire type or Coolify target, and per service type
+ * that is deployed as a database.
+ */
+export function validateMappings(mappings: TypeMappings | undefined): string[] {
+  const sections = [
+    {
+      key: 'databases',
+      label: 'database type',
+      sources: DATABASE_TYPES,
+      targets: DATABASE_TARGETS,
+    },
+    {
+      key: 'services',
+      label: 'service type',
+      sources: SERVICE_TYPES,
+      targets: SERVICE_TARGETS,
+    },
+    {
+      key: 'buildPacks',
+      label: 'build pack',
+      sources: BUILD_PACKS,
+      targets: BUILD_PACK_TARGETS,
+    },
+  ] as const;
+
+  const errors: string[] = [];
+  for (const { key, label, sources, targets } of sections) {
+    for (const [source, target] of Object.entries(mappings?.[key] ?? {})) {
+      if (!(sources as readonly string[]).includes(source)) {
+        errors.push(`mappings.${key}: unknown Aspire ${label} "${source}"`);
+      }
+      if (!Object.hasOwn(targets, target)) {
+        const expected = Object.keys(targets).join(', ');
+        errors.push(
+          `mappings.${key}.${source}: unknown Coolify ${label} "${target}" (expected one of: ${expected})`
+        );
+      }
+    }
+  }
+  for (const source of Object.keys(mappings?.services ?? {})) {
+    if ((DATABASE_SERVICE_TYPES as string[]).includes(source)) {
+      errors.push(
+        `mappings.services.${source}: ${source} resources are deployed as databases, ` +
+          'map them in mappings.databases'
+      );
+    }
+  }
+  return errors;
+}
+
+/**
+ * Apply the configured mappings to a model: mapped resources take the Aspire type of their
+ * Coolify target, so every later step (payloads, connection strings, SQL Server grouping)
+ * treats them as that type. Custom images are dropped unless the target runs the image.
+ * Throws InvalidMappingError before anything is mapped when a mapping is unknown.
+ */
+export function applyTypeMappings(app: AspireApp, mappings: TypeMappings | undefined): MappedApp {
+  const errors = validateMappings(mappings);
+  if (errors.length > 0) {
+    throw new InvalidMappingError(errors);
+  }
+
+  const applied: AppliedMapping[] = [];
+
+  const databases = app.databases.map((db) => {
+    const target = mappings?.databases?.[db.type];
+    if (!target) {
+      return db;
+    }
+    applied.push({ name: db.name, resourceType: 'database', from: db.type, to: target });
+    return { ...db, type: DATABASE_TARGETS[target], image: undefined, imageTag: undefined };
+  });
+
+  const services = app.services.map((service) => {
+    const target = mappings?.services?.[service.type];
+    if (!target) {
+      return service;
+    }
+    applied.push({ name: service.name, resourceType: 'service', from: service.type, to: target });
+    const type = SERVICE_TARGETS[target];
+    return type === 'custom'
+      ? { ...service, type }
+      : { ...service, type, image: undefined, imageTag: undefined };
+  });
+
+  // Storage (MinIO) takes the service mappings too; mapped to another type, it becomes a service
+  const storage: StorageService[] = [];
+  for (const resource of app.storage) {
+    const target = mappings?.services?.[resource.type];
+    if (!target) {
+      storage.push(resource);
+      continue;
+    }
+    applied.push({ name: resource.name, resourceType: 'service', from: resource.type, to: target });
+    const type = SERVICE_TARGETS[target];
+    if (type === 'minio') {
+      storage.push({ ...resource, type, image: undefined, imageTag: undefined });
+    } else {
+      const service: Service = { ...resource, type, endpoints: [], references: [] };
+      services.push(
+        type === 'custom' ? service : { ...service, image: undefined, imageTag: undefined }
+      );
+    }
+  }
+
+  const applications = app.applications.map((application) => {
+    const target = mappings?.buildPacks?.[application.buildPack];
+    if (!target) {
+      return application;
+    }
+    applied.push({
+      name: application.name,
+      resourceType: 'application',
+      from: application.buildPack,
+      to: target,
+    });
+    return { ...application, buildPack: BUILD_PACK_TARGETS[target] };
+  });
+
+  if (applied.length === 0) {
+    return { app, applied };
+  }
+
+  // References to mapped databases receive the connection string of the new type
+  const references = app.references.map((reference) => {
+    const from = app.databases.find((db) => db.name === reference.to);
+    const to = databases.find((db) => db.name === reference.to);
+    return from && to && reference.connectionStringEnv === getConnectionStringEnvName(from.type)
+      ? { ...reference, connectionStringEnv: getConnectionStringEnvName(to.type) }
+      : reference;
+  });
+
+  return { app: { ...app, databases, services, storage, applications, references }, applied };
+}
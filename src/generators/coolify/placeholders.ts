@@ -0,0 +1,53 @@
+/**
+ * Script placeholders - Settings a generated script reads from its environment at run time
+ */
+
+import type { PlanConfig } from '../../plan/index.js';
+
+export interface GeneratorOptions {
+  serverUuid?: string;
+  projectUuid?: string;
+  environmentName?: string;
+  instantDeploy?: boolean;
+  domains?: PlanConfig['domains'];
+  github?: PlanConfig['github'];
+  buildPack?: PlanConfig['buildPack'];
+}
+
+/**
+ * Plan settings of a generated script: unset UUIDs and the environment name become
+ * shell variables
+ */
+export function toPlanConfig(options: GeneratorOptions): PlanConfig {
+  return {
+    serverUuid: options.serverUuid || '${SERVER_UUID}',
+    projectUuid: options.projectUuid || '${PROJECT_UUID}',
+    environmentName: options.environmentName || '${ENVIRONMENT_NAME}',
+    instantDeploy: options.instantDeploy,
+    domains: options.domains,
+    github: options.github,
+    buildPack: options.buildPack,
+  };
+}
+
+/**
+ * Shell variable holding the UUID of a created resource (e.g. UUID_API_SERVICE)
+ */
+export function toUuidVariable(name: string): string {
+  return `UUID_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
+
+/**
+ * Shell variable a generated script reads a parameter value from (e.g. PARAMETER_API_KEY)
+ */
+export function toParameterVariable(name: string): string {
+  return `PARAMETER_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
+
+/**
+ * Shell variable a generated script reads a connection string from
+ * (e.g. CONNECTION_STRING_PAYMENTS)
+ */
+export function toConnectionStringVariable(name: string): string {
+  return `CONNECTION_STRING_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
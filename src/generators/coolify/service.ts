@@ -2,84 +2,83 @@
  * Service command generator for Coolify API
  */
 
-import type { Service, StorageService } from '../../models/aspire.js';
+import type { Service, SqlServerInstance, StorageService } from '../../models/aspire.js';
 import type { CoolifyServiceCommand, CoolifyServiceType } from '../../models/coolify.js';
+import type { ServicePayload } from '../../api/coolify.js';
+import { buildServicePayload, buildSqlServerPayload } from '../../plan/index.js';
+import { toPlanConfig, type GeneratorOptions } from './placeholders.js';
 
-const ASPIRE_TO_COOLIFY_SERVICE: Record<string, CoolifyServiceType> = {
-  minio: 'minio',
-  rabbitmq: 'rabbitmq',
-  keycloak: 'keycloak',
-  seq: 'seq',
-  maildev: 'mailpit', // Coolify uses mailpit instead of maildev
-  kafka: 'kafka',
-  elasticsearch: 'elasticsearch',
-  custom: 'custom',
-};
-
-export interface ServiceGeneratorOptions {
-  serverUuid?: string;
-  projectUuid?: string;
-  environmentName?: string;
-  instantDeploy?: boolean;
-}
+export type ServiceGeneratorOptions = GeneratorOptions;
 
 export function generateServiceCommand(
   service: Service,
   options: ServiceGeneratorOptions = {}
 ): CoolifyServiceCommand {
-  const coolifyType = ASPIRE_TO_COOLIFY_SERVICE[service.type] || 'custom';
-
-  // Build the API payload
-  const payload: Record<string, unknown> = {
-    server_uuid: options.serverUuid || '${SERVER_UUID}',
-    project_uuid: options.projectUuid || '${PROJECT_UUID}',
-    environment_name: options.environmentName || '${ENVIRONMENT_NAME}',
-    type: coolifyType,
-    name: service.name,
-    instant_deploy: options.instantDeploy ?? true,
-  };
-
-  return {
-    endpoint: '/services',
-    method: 'POST',
-    payload,
-    name: service.name,
-    resourceType: 'service',
-    serviceType: coolifyType,
-    comment: `Service: ${service.name} (${service.type})`,
-  };
+  return renderServiceCommand(service, buildServicePayload(service, toPlanConfig(options)));
 }
 
 export function generateStorageCommand(
   storage: StorageService,
   options: ServiceGeneratorOptions = {}
 ): CoolifyServiceCommand {
-  // Map storage types to Coolify service types
-  const storageTypeMap: Record<string, CoolifyServiceType> = {
-    minio: 'minio',
-    azurite: 'minio', // Use MinIO as Azure Storage emulator fallback
-    blob: 'minio',
-  };
+  return renderStorageCommand(storage, buildServicePayload(storage, toPlanConfig(options)));
+}
 
-  const coolifyType = storageTypeMap[storage.type] || 'minio';
+export function generateSqlServerCommand(
+  instance: SqlServerInstance,
+  options: ServiceGeneratorOptions = {}
+): CoolifyServiceCommand {
+  return renderSqlServerCommand(instance, buildSqlServerPayload(instance, toPlanConfig(options)));
+}
 
-  // Build the API payload
-  const payload: Record<string, unknown> = {
-    server_uuid: options.serverUuid || '${SERVER_UUID}',
-    project_uuid: options.projectUuid || '${PROJECT_UUID}',
-    environment_name: options.environmentName || '${ENVIRONMENT_NAME}',
-    type: coolifyType,
-    name: storage.name,
-    instant_deploy: options.instantDeploy ?? true,
-  };
+/**
+ * Render the planned creation request of a service. Custom containers carry a
+ * docker-compose document instead of a template type.
+ */
+export function renderServiceCommand(
+  service: Service,
+  payload: ServicePayload
+): CoolifyServiceCommand {
+  return toServiceCommand(service.name, payload, `Service: ${service.name} (${service.type})`);
+}
+
+/**
+ * Render the planned creation request of a storage service
+ */
+export function renderStorageCommand(
+  storage: StorageService,
+  payload: ServicePayload
+): CoolifyServiceCommand {
+  return toServiceCommand(storage.name, payload, `Storage: ${storage.name} (${storage.type})`);
+}
 
+/**
+ * Render the planned creation request of a SQL Server instance
+ */
+export function renderSqlServerCommand(
+  instance: SqlServerInstance,
+  payload: ServicePayload
+): CoolifyServiceCommand {
+  const databases = instance.databases.map((db) => db.name).join(', ');
+  return toServiceCommand(
+    instance.name,
+    payload,
+    `SQL Server: ${instance.name}${databases ? ` (databases: ${databases})` : ''}`
+  );
+}
+
+function toServiceCommand(
+  name: string,
+  payload: ServicePayload,
+  comment: string
+): CoolifyServiceCommand {
   return {
     endpoint: '/services',
     method: 'POST',
-    payload,
-    name: storage.name,
+    payload: { ...payload },
+    name,
     resourceType: 'service',
-    serviceType: coolifyType,
-    comment: `Storage: ${storage.name} (${storage.type})`,
+    serviceType: (payload.type ?? 'custom') as CoolifyServiceType,
+    comment,
   };
 }
@@ -5,15 +5,37 @@
  */
 
 // Parser exports
-export { parseFile, parseSource } from './parser/index.js';
-export type { ParseOptions, ParseResult, ParseError } from './parser/index.js';
+export { parseFile, parseSource, parseManifest } from './parser/index.js';
+export type {
+  ParseOptions,
+  ParseResult,
+  ParseError,
+  ParseWarning,
+  SourceLocation,
+  SourceSpan,
+  AspireManifest,
+} from './parser/index.js';
 
 // Generator exports
 export { generate } from './generators/coolify/index.js';
 export type { GenerateOptions, GenerateResult } from './generators/coolify/index.js';
+export { resolveApplicationDomain } from './generators/coolify/domains.js';
+export type { DomainStrategy } from './generators/coolify/domains.js';
+export {
+  applyTypeMappings,
+  validateMappings,
+  InvalidMappingError,
+} from './generators/coolify/mappings.js';
+export type { TypeMappings, AppliedMapping } from './generators/coolify/mappings.js';
 
 // API exports
-export { CoolifyApiClient } from './api/coolify.js';
+export { CoolifyApiClient, describeApiErrorContext, formatFieldErrors } from './api/coolify.js';
+export type {
+  CoolifyApiConfig,
+  CoolifyApiResponse,
+  CoolifyApiError,
+  RetryPolicy,
+} from './api/coolify.js';
 export { deployToCoolify } from './api/deployer.js';
 export type {
   DeployConfig,
@@ -21,7 +43,41 @@ export type {
   DeploymentSummary,
   GitHubConfig,
 } from './api/deployer.js';
+export { findDestroyTargets, destroyFromCoolify } from './api/destroyer.js';
+export { diffDeployment, formatDeploymentDiff } from './api/diff.js';
+export type { ChangeAction, ResourceChange, DeploymentDiff } from './api/diff.js';
+export type { FieldChange } from './api/drift.js';
+export { buildDependencyGraph, sortTopologically, DependencyCycleError } from './api/graph.js';
+export type { ResourceNode, ResourceKind } from './api/graph.js';
+export type {
+  DestroyConfig,
+  DestroyTarget,
+  DestroyResult,
+  DestroySummary,
+} from './api/destroyer.js';
 export { resolveToken, resolveApiUrl } from './api/token.js';
+export {
+  getUsedParameters,
+  resolveParameters,
+  applyParameters,
+  redactSecretParameters,
+  resolveConnectionStrings,
+} from './api/parameters.js';
+export type { ParameterResolutionOptions, ResolvedParameters } from './api/parameters.js';
+
+// Deployment plan exports
+export { buildDeploymentPlan, getCreationEndpoint } from './plan/index.js';
+export type {
+  PlanConfig,
+  DeploymentPlan,
+  PlannedResource,
+  DatabaseCreation,
+  ApplicationCreation,
+} from './plan/index.js';
+
+// Deployment state exports
+export { loadState, saveState, getStatePath, recordDeployment } from './state/index.js';
+export type { DeploymentState, ResourceState } from './state/index.js';
 
 // Model types
 export type {
@@ -39,6 +95,9 @@ export type {
   Volume,
   Endpoint,
   Reference,
+  SqlServerInstance,
+  Parameter,
+  ConnectionString,
 } from './models/aspire.js';
 
 export type {
@@ -49,4 +108,9 @@ export type {
   CoolifyOutput,
 } from './models/coolify.js';
 
-export { createEmptyAspireApp } from './models/aspire.js';
+export {
+  createEmptyAspireApp,
+  getSqlServerInstances,
+  findParameter,
+  findConnectionString,
+} from './models/aspire.js';
@@ -9,6 +9,8 @@ export interface AspireApp {
   storage: StorageService[];
   applications: Application[];
   references: Reference[];
+  parameters: Parameter[];
+  connectionStrings: ConnectionString[];
 }
 
 export interface Service {
@@ -51,7 +53,18 @@ export interface Database {
   environment: EnvironmentVariable[];
 }
 
-export type DatabaseType = 'postgres' | 'sqlserver' | 'mysql' | 'mongodb' | 'redis';
+export type DatabaseType =
+  | 'postgres'
+  | 'sqlserver'
+  | 'mysql'
+  | 'mariadb'
+  | 'mongodb'
+  | 'redis'
+  | 'valkey'
+  | 'garnet'
+  | 'keydb'
+  | 'dragonfly'
+  | 'clickhouse';
 
 export interface StorageService {
   name: string;
@@ -76,6 +89,7 @@ export interface Application {
   environment: EnvironmentVariable[];
   endpoints: Endpoint[];
   references: string[];
+  volumes?: Volume[];
   publishMode?: 'dockerfile' | 'container';
   runScript?: string;
   npmInstallCommand?: string;
@@ -84,18 +98,42 @@ export interface Application {
 
 export type ApplicationType = 'npm' | 'project' | 'container' | 'dockerfile' | 'executable';
 
-export type BuildPack = 'nixpacks' | 'dockerfile' | 'static' | 'node';
+export type BuildPack = 'nixpacks' | 'dockerfile' | 'static' | 'node' | 'dockercompose';
 
 export interface EnvironmentVariable {
   key: string;
   value: string;
   isExpression?: boolean;
+  parameter?: string; // Name of the AddParameter resource providing the value
+  isSecret?: boolean; // Value of a secret parameter: locked in Coolify, never written to scripts
+}
+
+/**
+ * An AddParameter value, resolved at deploy time from the config, the environment or a prompt
+ */
+export interface Parameter {
+  name: string;
+  variableName?: string;
+  secret: boolean;
+  value?: string; // Default value declared in the AppHost
+}
+
+/**
+ * An AddConnectionString resource: managed outside Coolify, its value is injected into the
+ * resources referencing it
+ */
+export interface ConnectionString {
+  name: string;
+  variableName?: string;
+  environmentVariable?: string; // Set in addition to ConnectionStrings__<name>
+  value?: string; // Resolved at deploy time from the config or the environment
 }
 
 export interface Volume {
-  name?: string;
+  name?: string; // Volume name, or the host path of a bind mount
   mountPath?: string;
-  isData: boolean;
+  isData: boolean; // Named Docker volume (WithDataVolume, WithVolume) rather than a bind mount
+  isReadOnly?: boolean;
 }
 
 export interface Endpoint {
@@ -113,6 +151,118 @@ export interface Reference {
   connectionStringEnv?: string;
 }
 
+/**
+ * A SQL Server container with the databases added to it. Coolify has no SQL Server
+ * database type, so each instance is deployed as a single compose service.
+ */
+export interface SqlServerInstance {
+  name: string;
+  variableName?: string;
+  image?: string;
+  imageTag?: string;
+  hostPort?: number;
+  hasDataVolume: boolean;
+  environment: EnvironmentVariable[];
+  databases: Database[]; // Created by the init step (empty for a server without AddDatabase)
+}
+
+/**
+ * Group the SQL Server databases of a model by server, in declaration order
+ */
+export function getSqlServerInstances(app: AspireApp): SqlServerInstance[] {
+  const instances = new Map<string, SqlServerInstance>();
+
+  for (const db of app.databases) {
+    if (db.type !== 'sqlserver') {
+      continue;
+    }
+
+    const name = db.serverName ?? db.name;
+    let instance = instances.get(name);
+    if (!instance) {
+      instance = {
+        name,
+        variableName: db.serverName ? db.serverVariableName : db.variableName,
+        image: db.image,
+        imageTag: db.imageTag,
+        hostPort: db.hostPort,
+        hasDataVolume: db.hasDataVolume,
+        environment: db.environment,
+        databases: [],
+      };
+      instances.set(name, instance);
+    }
+    if (db.serverName) {
+      instance.databases.push(db);
+    }
+  }
+
+  return [...instances.values()];
+}
+
+/**
+ * Find the SQL Server instance serving a database or server name/variable
+ */
+export function findSqlServerInstance(
+  app: AspireApp,
+  target: string
+): { instance: SqlServerInstance; database?: Database } | undefined {
+  for (const instance of getSqlServerInstances(app)) {
+    if (instance.name === target || instance.variableName === target) {
+      return { instance };
+    }
+    const database = instance.databases.find((d) => d.name === target || d.variableName === target);
+    if (database) {
+      return { instance, database };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the parameter an env expression reads: its C# variable (apiKey, apiKey.Resource)
+ * or a manifest value expression ({api-key.value})
+ */
+export function findParameter(app: AspireApp, expression: string): Parameter | undefined {
+  const trimmed = expression.trim();
+  const target = trimmed.match(/^\{([\w-]+)\.value\}$/)?.[1] ?? trimmed.replace(/\.Resource$/, '');
+  return app.parameters.find((p) => p.name === target || p.variableName === target);
+}
+
+/**
+ * Find the AddConnectionString resource a reference points to, by name or variable
+ */
+export function findConnectionString(app: AspireApp, target: string): ConnectionString | undefined {
+  return app.connectionStrings.find((cs) => cs.name === target || cs.variableName === target);
+}
+
+/**
+ * Generic env variable receiving the connection string of a referenced database
+ */
+export function getConnectionStringEnvName(dbType: string): string {
+  switch (dbType) {
+    case 'postgres':
+      return 'DATABASE_URL';
+    case 'sqlserver':
+      return 'SQLSERVER_CONNECTION_STRING';
+    case 'mysql':
+    case 'mariadb': // MariaDB speaks the MySQL protocol
+      return 'MYSQL_URL';
+    case 'mongodb':
+      return 'MONGODB_URL';
+    case 'redis':
+    case 'valkey':
+    case 'garnet':
+    case 'keydb':
+    case 'dragonfly':
+      return 'REDIS_URL';
+    case 'clickhouse':
+      return 'CLICKHOUSE_URL';
+    default:
+      return 'CONNECTION_STRING';
+  }
+}
+
 export function createEmptyAspireApp(): AspireApp {
   return {
     services: [],
@@ -120,5 +270,7 @@ export function createEmptyAspireApp(): AspireApp {
     storage: [],
     applications: [],
     references: [],
+    parameters: [],
+    connectionStrings: [],
   };
 }
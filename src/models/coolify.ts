@@ -6,13 +6,15 @@ export interface CoolifyCommand {
   /** API endpoint path (e.g., /databases/postgresql) */
   endpoint: string;
   /** HTTP method */
-  method: 'POST' | 'GET' | 'PUT' | 'DELETE';
+  method: 'POST' | 'GET' | 'PUT' | 'PATCH' | 'DELETE';
   /** Request payload */
   payload: Record<string, unknown>;
   /** Comment describing the resource */
   comment?: string;
   /** Resource name for display */
   name: string;
+  /** Shell variable receiving the UUID of the created resource, for later commands */
+  uuidVariable?: string;
 }
 
 export interface CoolifyDatabaseCommand extends CoolifyCommand {
@@ -38,7 +40,7 @@ export interface CoolifyServiceCommand extends CoolifyCommand {
 }
 
 export type CoolifyServiceType =
-  | 'minio'
+  | 'minio-community-edition'
   | 'rabbitmq'
   | 'keycloak'
   | 'seq'
@@ -48,11 +50,20 @@ export type CoolifyServiceType =
   | 'custom';
 
 export interface CoolifyApplicationCommand extends CoolifyCommand {
-  endpoint: '/applications/dockerimage' | '/applications/dockerfile';
+  endpoint:
+    | '/applications/dockerimage'
+    | '/applications/public'
+    | '/applications/private-github-app'
+    | '/applications/dockerfile';
   resourceType: 'application';
   buildPack: CoolifyBuildPack;
 }
 
+export interface CoolifyEnvironmentCommand extends CoolifyCommand {
+  method: 'PATCH';
+  resourceType: 'environment';
+}
+
 export interface CoolifyProjectCommand extends CoolifyCommand {
   endpoint: '/projects';
   resourceType: 'project';
@@ -70,53 +81,60 @@ export interface CoolifyOutput {
   script: string;
 }
 
+// Variables set by the script ($PROJECT_UUID) or read from its environment
+// ($PARAMETER_*, $CONNECTION_STRING_*)
+const SHELL_VARIABLE_PATTERN = /\$(PROJECT_UUID|(?:PARAMETER|CONNECTION_STRING)_[A-Z0-9_]+)/g;
+
+// Bash function of the script escaping a variable read from its environment for a JSON string
+const JSON_ESCAPE_FUNCTION = [
+  'json_escape() {',
+  '  local value=$1',
+  '  value=${value//\\\\/\\\\\\\\}',
+  '  value=${value//\\"/\\\\\\"}',
+  "  value=${value//$'\\n'/\\\\n}",
+  "  value=${value//$'\\r'/\\\\r}",
+  "  value=${value//$'\\t'/\\\\t}",
+  '  printf \'%s\' "$value"',
+  '}',
+];
+
 /**
- * Format a single command as a curl request
- * Handles shell variable expansion for $PROJECT_UUID
+ * Quote a payload as a single shell word. The JSON stays single-quoted so that its literal
+ * values are never expanded; the shell variables are spliced in between the quotes, and
+ * the values read from the environment are JSON-escaped at run time.
  */
-export function formatCommand(cmd: CoolifyCommand): string {
-  // Check if payload contains shell variables that need expansion
-  const hasShellVars = JSON.stringify(cmd.payload).includes('$PROJECT_UUID');
-
-  if (hasShellVars) {
-    // Use double quotes and escape internal quotes for shell variable expansion
-    const payloadJson = JSON.stringify(cmd.payload, null, 2)
-      .split('\n')
-      .map((line, i) => (i === 0 ? line : '  ' + line))
-      .join('\n')
-      .replace(/"/g, '\\"')
-      .replace(/\$PROJECT_UUID/g, '${PROJECT_UUID}');
-
-    return `curl -X ${cmd.method} "\${COOLIFY_API_URL}/api/v1${cmd.endpoint}" \\
-  -H "Authorization: Bearer \${COOLIFY_TOKEN}" \\
-  -H "Content-Type: application/json" \\
-  -d "${payloadJson}"`;
-  }
-
-  const payloadJson = JSON.stringify(cmd.payload, null, 2)
+function quotePayload(payload: unknown): string {
+  const payloadJson = JSON.stringify(payload, null, 2)
     .split('\n')
     .map((line, i) => (i === 0 ? line : '  ' + line))
-    .join('\n');
+    .join('\n')
+    .replace(/'/g, `'\\''`)
+    .replace(SHELL_VARIABLE_PATTERN, (_match, variable: string) =>
+      variable === 'PROJECT_UUID' ? `'"$${variable}"'` : `'"$(json_escape "$${variable}")"'`
+    );
+
+  return `'${payloadJson}'`;
+}
 
+/**
+ * Format a single command as a curl request
+ * Handles shell variable expansion for $PROJECT_UUID and parameter values
+ */
+export function formatCommand(cmd: CoolifyCommand): string {
   return `curl -X ${cmd.method} "\${COOLIFY_API_URL}/api/v1${cmd.endpoint}" \\
   -H "Authorization: Bearer \${COOLIFY_TOKEN}" \\
   -H "Content-Type: application/json" \\
-  -d '${payloadJson}'`;
+  -d ${quotePayload(cmd.payload)}`;
 }
 
 /**
  * Format a project creation command that captures the UUID
  */
 function formatProjectCommand(cmd: CoolifyCommand): string {
-  const payloadJson = JSON.stringify(cmd.payload, null, 2)
-    .split('\n')
-    .map((line, i) => (i === 0 ? line : '  ' + line))
-    .join('\n');
-
   return `PROJECT_RESPONSE=$(curl -s -X ${cmd.method} "\${COOLIFY_API_URL}/api/v1${cmd.endpoint}" \\
   -H "Authorization: Bearer \${COOLIFY_TOKEN}" \\
   -H "Content-Type: application/json" \\
-  -d '${payloadJson}')
+  -d ${quotePayload(cmd.payload)})
 
 # Extract project UUID from response
 PROJECT_UUID=$(echo "$PROJECT_RESPONSE" | grep -o '"uuid":"[^"]*"' | head -1 | cut -d'"' -f4)
@@ -129,6 +147,30 @@ fi
 echo "  Created project with UUID: $PROJECT_UUID"`;
 }
 
+/**
+ * Format a resource creation command that captures the UUID of the created resource
+ */
+function formatCaptureCommand(cmd: CoolifyCommand, variable: string): string {
+  const request = formatCommand(cmd).replace(/^curl -X/, 'curl -s -X');
+
+  return `${variable}_RESPONSE=$(${request})
+${variable}=$(echo "$${variable}_RESPONSE" | grep -o '"uuid":"[^"]*"' | head -1 | cut -d'"' -f4)
+
+if [ -z "$${variable}" ]; then
+  echo "Error: Failed to create ${cmd.name}. Response: $${variable}_RESPONSE"
+  exit 1
+fi`;
+}
+
+/**
+ * Describe a variable a generated script reads from its environment
+ */
+function describeInputVariable(variable: string): string {
+  return variable.startsWith('PARAMETER_')
+    ? 'Value of an AddParameter parameter'
+    : 'Value of an AddConnectionString connection string';
+}
+
 /**
  * Format all commands as a bash script with curl requests
  */
@@ -136,6 +178,14 @@ export function formatOutput(output: CoolifyOutput): string {
   // Check if there's a project command
   const projectCmd = output.commands.find((cmd) => cmd.endpoint === '/projects');
   const otherCommands = output.commands.filter((cmd) => cmd.endpoint !== '/projects');
+  const inputVariables = [
+    ...new Set(
+      output.commands.flatMap(
+        (cmd) =>
+          JSON.stringify(cmd.payload).match(/\$(PARAMETER|CONNECTION_STRING)_[A-Z0-9_]+/g) ?? []
+      )
+    ),
+  ].map((variable) => variable.slice(1));
 
   const lines: string[] = [
     '#!/bin/bash',
@@ -145,6 +195,7 @@ export function formatOutput(output: CoolifyOutput): string {
     '# Required environment variables:',
     '#   COOLIFY_API_URL - Your Coolify instance URL (e.g., https://coolify.example.com)',
     '#   COOLIFY_TOKEN   - Your Coolify API token',
+    ...inputVariables.map((variable) => `#   ${variable} - ${describeInputVariable(variable)}`),
     '#',
     '# Usage:',
     '#   export COOLIFY_API_URL=https://coolify.example.com',
@@ -164,6 +215,14 @@ export function formatOutput(output: CoolifyOutput): string {
     '  exit 1',
     'fi',
     '',
+    ...inputVariables.flatMap((variable) => [
+      `if [ -z "$${variable}" ]; then`,
+      `  echo "Error: ${variable} environment variable is not set"`,
+      '  exit 1',
+      'fi',
+      '',
+    ]),
+    ...(inputVariables.length > 0 ? [...JSON_ESCAPE_FUNCTION, ''] : []),
     'echo "Deploying to Coolify at $COOLIFY_API_URL"',
     'echo ""',
     '',
@@ -184,8 +243,8 @@ export function formatOutput(output: CoolifyOutput): string {
     if (cmd.comment) {
       lines.push(`# ${cmd.comment}`);
     }
-    lines.push(`echo "Creating ${cmd.name}..."`);
-    lines.push(formatCommand(cmd));
+    lines.push(`echo "${cmd.method === 'PATCH' ? 'Updating' : 'Creating'} ${cmd.name}..."`);
+    lines.push(cmd.uuidVariable ? formatCaptureCommand(cmd, cmd.uuidVariable) : formatCommand(cmd));
     lines.push('echo ""');
     lines.push('');
   }
@@ -9,8 +9,9 @@ import type {
   EnvironmentVariable,
   Endpoint,
 } from '../../models/aspire.js';
-import type { FluentChain } from '../tokenizer.js';
+import type { FluentChain, MethodCall } from '../tokenizer.js';
 import { extractFirstStringArg, extractNamedArgs } from '../tokenizer.js';
+import { extractVolume } from './container.js';
 
 const APPLICATION_METHODS: Record<string, { type: ApplicationType; buildPack: BuildPack }> = {
   AddNpmApp: { type: 'npm', buildPack: 'nixpacks' },
@@ -26,7 +27,11 @@ export function isApplicationChain(chain: FluentChain): boolean {
   return chain.rootMethod in APPLICATION_METHODS;
 }
 
-export function extractApplication(chain: FluentChain): Application {
+/**
+ * Extract an application. Chained methods the extractor does not understand are collected
+ * in unsupported, when given.
+ */
+export function extractApplication(chain: FluentChain, unsupported?: MethodCall[]): Application {
   const config = APPLICATION_METHODS[chain.rootMethod] || {
     type: 'project',
     buildPack: 'dockerfile',
@@ -144,6 +149,17 @@ export function extractApplication(chain: FluentChain): Application {
           app.npmInstallCommand = npmArgs.installCommand;
         }
         break;
+
+      case 'WithVolume':
+      case 'WithBindMount':
+        const volume = extractVolume(method);
+        if (volume) {
+          app.volumes = [...(app.volumes ?? []), volume];
+        }
+        break;
+
+      default:
+        unsupported?.push(method);
     }
   }
 
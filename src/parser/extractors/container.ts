@@ -2,8 +2,14 @@
  * Container/Service extractor - parses container-related Aspire methods
  */
 
-import type { Service, ServiceType, EnvironmentVariable, Endpoint } from '../../models/aspire.js';
-import type { FluentChain } from '../tokenizer.js';
+import type {
+  Service,
+  ServiceType,
+  EnvironmentVariable,
+  Endpoint,
+  Volume,
+} from '../../models/aspire.js';
+import type { FluentChain, MethodCall } from '../tokenizer.js';
 import { extractFirstStringArg, extractNamedArgs } from '../tokenizer.js';
 
 const CONTAINER_METHODS: Record<string, ServiceType> = {
@@ -28,7 +34,11 @@ export function isContainerChain(chain: FluentChain): boolean {
   return chain.rootMethod in CONTAINER_METHODS;
 }
 
-export function extractContainer(chain: FluentChain): Service {
+/**
+ * Extract a service container. Chained methods the extractor does not understand are
+ * collected in unsupported, when given.
+ */
+export function extractContainer(chain: FluentChain, unsupported?: MethodCall[]): Service {
   const serviceType = CONTAINER_METHODS[chain.rootMethod] || 'custom';
 
   const service: Service = {
@@ -73,20 +83,11 @@ export function extractContainer(chain: FluentChain): Service {
         break;
 
       case 'WithDataVolume':
-        service.volumes.push({
-          isData: true,
-          mountPath: extractFirstStringArg(method.rawArgs) || undefined,
-        });
-        break;
-
+      case 'WithVolume':
       case 'WithBindMount':
-        if (method.args.length >= 2) {
-          service.volumes.push({
-            isData: false,
-            name: extractFirstStringArg(method.args[0]) || method.args[0]?.replace(/["']/g, ''),
-            mountPath:
-              extractFirstStringArg(method.args[1]) || method.args[1]?.replace(/["']/g, ''),
-          });
+        const volume = extractVolume(method);
+        if (volume) {
+          service.volumes.push(volume);
         }
         break;
 
@@ -115,12 +116,48 @@ export function extractContainer(chain: FluentChain): Service {
           service.references.push(refName);
         }
         break;
+
+      default:
+        unsupported?.push(method);
     }
   }
 
   return service;
 }
 
+/**
+ * Extract a volume from WithDataVolume(name), WithVolume([name,] target[, isReadOnly])
+ * or WithBindMount(source, target[, isReadOnly]), with positional or named arguments
+ */
+export function extractVolume(method: MethodCall): Volume | null {
+  if (method.method === 'WithDataVolume') {
+    // The argument is the volume name; a path is kept as the mount path
+    const arg = extractFirstStringArg(method.rawArgs) || undefined;
+    return arg?.startsWith('/') ? { isData: true, mountPath: arg } : { isData: true, name: arg };
+  }
+
+  const named = extractNamedArgs(method.args);
+  const positional = method.args
+    .filter((arg) => !/^\s*\w+\s*:/.test(arg))
+    .map((arg) => extractFirstStringArg(arg) || arg.trim().replace(/["']/g, ''));
+  const isReadOnly = (named.isReadOnly ?? positional[2]) === 'true' || undefined;
+
+  if (method.method === 'WithBindMount') {
+    const source = named.source ?? positional[0];
+    const target = named.target ?? positional[1];
+    return source && target ? { isData: false, name: source, mountPath: target, isReadOnly } : null;
+  }
+
+  // WithVolume(target) creates an anonymous volume
+  const [name, target] =
+    named.target !== undefined
+      ? [named.name ?? positional[0], named.target]
+      : positional.length >= 2
+        ? [positional[0], positional[1]]
+        : [named.name, positional[0]];
+  return target ? { isData: true, name, mountPath: target, isReadOnly } : null;
+}
+
 function extractEnvironment(args: string[]): EnvironmentVariable | null {
   if (args.length < 2) return null;
 
@@ -3,7 +3,7 @@
  */
 
 import type { Database, DatabaseType, EnvironmentVariable } from '../../models/aspire.js';
-import type { FluentChain } from '../tokenizer.js';
+import type { FluentChain, MethodCall } from '../tokenizer.js';
 import { extractFirstStringArg } from '../tokenizer.js';
 
 const DATABASE_METHODS: Record<string, DatabaseType> = {
@@ -18,13 +18,23 @@ const DATABASE_METHODS: Record<string, DatabaseType> = {
   AddMongoDBContainer: 'mongodb',
   AddRedis: 'redis',
   AddRedisContainer: 'redis',
+  AddMariaDB: 'mariadb',
+  AddValkey: 'valkey',
+  AddGarnet: 'garnet',
+  AddKeyDB: 'keydb',
+  AddDragonfly: 'dragonfly',
+  AddClickHouse: 'clickhouse',
 };
 
 export function isDatabaseChain(chain: FluentChain): boolean {
   return chain.rootMethod in DATABASE_METHODS;
 }
 
-export function extractDatabase(chain: FluentChain): Database {
+/**
+ * Extract a database server. Chained methods the extractor does not understand are
+ * collected in unsupported, when given.
+ */
+export function extractDatabase(chain: FluentChain, unsupported?: MethodCall[]): Database {
   const dbType = DATABASE_METHODS[chain.rootMethod] || 'postgres';
 
   const database: Database = {
@@ -71,6 +81,9 @@ export function extractDatabase(chain: FluentChain): Database {
           processNestedMethod(database, nested);
         }
         break;
+
+      default:
+        unsupported?.push(method);
     }
   }
 
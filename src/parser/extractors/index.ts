@@ -5,3 +5,9 @@
 export { isDatabaseChain, extractDatabase, extractChildDatabases } from './database.js';
 export { isContainerChain, extractContainer } from './container.js';
 export { isApplicationChain, extractApplication } from './application.js';
+export {
+  isParameterChain,
+  extractParameter,
+  isConnectionStringChain,
+  extractConnectionString,
+} from './parameter.js';
@@ -0,0 +1,51 @@
+/**
+ * Parameter extractor - parses AddParameter and AddConnectionString resources
+ */
+
+import type { ConnectionString, Parameter } from '../../models/aspire.js';
+import type { FluentChain } from '../tokenizer.js';
+import { extractFirstStringArg, extractNamedArgs } from '../tokenizer.js';
+
+export function isParameterChain(chain: FluentChain): boolean {
+  return chain.rootMethod === 'AddParameter';
+}
+
+/**
+ * Extract AddParameter("name", secret: true), AddParameter("name", true)
+ * or AddParameter("name", "default", secret: false)
+ */
+export function extractParameter(chain: FluentChain): Parameter {
+  const args = chain.rootArgs.slice(1);
+  const named = extractNamedArgs(args);
+  const positional = args.filter((arg) => !/^\s*\w+\s*:/.test(arg)).map((arg) => arg.trim());
+
+  const secret = named.secret ?? positional.find((arg) => arg === 'true' || arg === 'false');
+  const value = named.value ?? positional.map(extractFirstStringArg).find((arg) => arg !== null);
+
+  return {
+    name: chain.name,
+    variableName: chain.variableName,
+    secret: secret?.trim() === 'true',
+    ...(value ? { value } : {}),
+  };
+}
+
+export function isConnectionStringChain(chain: FluentChain): boolean {
+  return chain.rootMethod === 'AddConnectionString';
+}
+
+/**
+ * Extract AddConnectionString("name") or AddConnectionString("name", "ENV_VARIABLE")
+ */
+export function extractConnectionString(chain: FluentChain): ConnectionString {
+  const args = chain.rootArgs.slice(1);
+  const named = extractNamedArgs(args);
+  const environmentVariable =
+    named.environmentVariableName ?? args.map(extractFirstStringArg).find((arg) => arg !== null);
+
+  return {
+    name: chain.name,
+    variableName: chain.variableName,
+    ...(environmentVariable ? { environmentVariable } : {}),
+  };
+}
@@ -1,11 +1,21 @@
 /**
- * Main parser module - orchestrates parsing of Aspire Program.cs files
+ * Main parser module - orchestrates parsing of Aspire Program.cs files and manifests
  */
 
 import { readFileSync } from 'node:fs';
-import type { AspireApp, Reference } from '../models/aspire.js';
-import { createEmptyAspireApp } from '../models/aspire.js';
-import { extractFluentChains, type FluentChain } from './tokenizer.js';
+import { extname } from 'node:path';
+import type { AspireApp, ConnectionString, Reference } from '../models/aspire.js';
+import {
+  createEmptyAspireApp,
+  findConnectionString,
+  getConnectionStringEnvName,
+} from '../models/aspire.js';
+import {
+  extractFluentChains,
+  type FluentChain,
+  type MethodCall,
+  type SourceSpan,
+} from './tokenizer.js';
 import {
   isDatabaseChain,
   extractDatabase,
@@ -14,7 +24,12 @@ import {
   extractContainer,
   isApplicationChain,
   extractApplication,
+  isParameterChain,
+  extractParameter,
+  isConnectionStringChain,
+  extractConnectionString,
 } from './extractors/index.js';
+import { extractManifestApp, type AspireManifest } from './manifest.js';
 
 export interface ParseOptions {
   strict?: boolean;
@@ -23,30 +38,72 @@ export interface ParseOptions {
 export interface ParseResult {
   app: AspireApp;
   errors: ParseError[];
-  warnings: string[];
+  warnings: ParseWarning[];
 }
 
 export interface ParseError {
   message: string;
-  line?: number;
+  line?: number; // 1-based position in the source, when known
+  column?: number;
   context?: string;
 }
 
+export interface ParseWarning {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
 /**
- * Parse an Aspire Program.cs file and extract the application model
+ * Parse an Aspire Program.cs file, or a publisher manifest (.json), and extract the
+ * application model
  */
 export function parseFile(filePath: string, options: ParseOptions = {}): ParseResult {
   const source = readFileSync(filePath, 'utf-8');
+  if (extname(filePath).toLowerCase() === '.json') {
+    return parseManifest(source, options);
+  }
   return parseSource(source, options);
 }
 
+/**
+ * Parse an Aspire publisher manifest (aspire-manifest.json) into the application model
+ */
+export function parseManifest(source: string, options: ParseOptions = {}): ParseResult {
+  const errors: ParseError[] = [];
+  const warnings: ParseWarning[] = [];
+
+  let manifest: AspireManifest;
+  try {
+    manifest = JSON.parse(source) as AspireManifest;
+  } catch (err) {
+    errors.push({
+      message: `Invalid manifest: ${err instanceof Error ? err.message : String(err)}`,
+    });
+    return { app: createEmptyAspireApp(), errors, warnings };
+  }
+
+  if (!manifest || typeof manifest.resources !== 'object') {
+    errors.push({ message: 'Invalid manifest: missing resources' });
+    return { app: createEmptyAspireApp(), errors, warnings };
+  }
+
+  const app = extractManifestApp(manifest, createUnsupportedReporter(options, errors, warnings));
+  app.references = buildReferences(app, new Map());
+  validateApp(app, warnings);
+
+  return { app, errors, warnings };
+}
+
 /**
  * Parse Aspire Program.cs source code and extract the application model
  */
-export function parseSource(source: string, _options: ParseOptions = {}): ParseResult {
+export function parseSource(source: string, options: ParseOptions = {}): ParseResult {
   const app = createEmptyAspireApp();
   const errors: ParseError[] = [];
-  const warnings: string[] = [];
+  const warnings: ParseWarning[] = [];
+
+  const report = createUnsupportedReporter(options, errors, warnings);
 
   try {
     // Extract all fluent method chains
@@ -60,15 +117,19 @@ export function parseSource(source: string, _options: ParseOptions = {}): ParseR
       }
     }
 
+    // Resources are added to the distributed application builder, or to their parent resource
+    const builders = findBuilderVariables(source);
+
     // Process each chain and categorize
     for (const chain of chains) {
+      const unsupported: MethodCall[] = [];
       try {
         if (isDatabaseChain(chain)) {
-          const db = extractDatabase(chain);
+          const db = extractDatabase(chain, unsupported);
           app.databases.push(db);
         } else if (isContainerChain(chain)) {
           // Skip containers that are actually databases (Redis can be both)
-          const container = extractContainer(chain);
+          const container = extractContainer(chain, unsupported);
           // Check if this is a database-like service
           if (['redis', 'mongodb'].includes(container.type)) {
             app.databases.push({
@@ -96,12 +157,32 @@ export function parseSource(source: string, _options: ParseOptions = {}): ParseR
             app.services.push(container);
           }
         } else if (isApplicationChain(chain)) {
-          const application = extractApplication(chain);
+          const application = extractApplication(chain, unsupported);
           app.applications.push(application);
+        } else if (isParameterChain(chain)) {
+          app.parameters.push(extractParameter(chain));
+          unsupported.push(...chain.chainedMethods);
+        } else if (isConnectionStringChain(chain)) {
+          app.connectionStrings.push(extractConnectionString(chain));
+          unsupported.push(...chain.chainedMethods);
+        } else if (chain.rootMethod === 'AddDatabase') {
+          // Extracted with their server below
+          unsupported.push(...chain.chainedMethods);
+        } else {
+          // Add* calls on builder.Services, builder.Configuration, ... are not resources
+          if (builders.has(chain.baseObject ?? '') || chainMap.has(chain.baseObject ?? '')) {
+            report(`Unsupported resource type ${chain.rootMethod}: ${chain.name}`, chain.callSpan);
+          }
+          continue;
+        }
+
+        for (const method of unsupported.filter((m) => /^(With|Publish)/.test(m.method))) {
+          report(`Unsupported method in ${chain.name}: ${method.method}`, method.span);
         }
       } catch (err) {
         errors.push({
           message: `Failed to parse chain: ${err instanceof Error ? err.message : String(err)}`,
+          ...toLocation(chain.span),
           context: chain.raw.substring(0, 100),
         });
       }
@@ -133,7 +214,7 @@ export function parseSource(source: string, _options: ParseOptions = {}): ParseR
     app.references = buildReferences(app, chainMap);
 
     // Validate and warn about issues
-    validateApp(app, warnings);
+    validateApp(app, warnings, chains);
   } catch (err) {
     errors.push({
       message: `Parse failed: ${err instanceof Error ? err.message : String(err)}`,
@@ -156,6 +237,10 @@ function buildReferences(app: AspireApp, _chainMap: Map<string, FluentChain>): R
       const targetDb = app.databases.find((d) => d.variableName === ref || d.name === ref);
       const targetService = app.services.find((s) => s.variableName === ref || s.name === ref);
       const targetStorage = app.storage.find((s) => s.variableName === ref || s.name === ref);
+      const targetApp = app.applications.find(
+        (a) => a !== application && (a.variableName === ref || a.name === ref)
+      );
+      const targetConnectionString = findConnectionString(app, ref);
 
       if (targetDb) {
         references.push({
@@ -173,6 +258,14 @@ function buildReferences(app: AspireApp, _chainMap: Map<string, FluentChain>): R
           from: application.name,
           to: targetStorage.name,
         });
+      } else if (targetApp) {
+        // Application-to-application reference: resolved through service discovery
+        references.push({
+          from: application.name,
+          to: targetApp.name,
+        });
+      } else if (targetConnectionString) {
+        references.push(toConnectionStringReference(application.name, targetConnectionString));
       }
     }
   }
@@ -181,12 +274,15 @@ function buildReferences(app: AspireApp, _chainMap: Map<string, FluentChain>): R
   for (const service of app.services) {
     for (const ref of service.references) {
       const targetDb = app.databases.find((d) => d.variableName === ref || d.name === ref);
+      const targetConnectionString = findConnectionString(app, ref);
       if (targetDb) {
         references.push({
           from: service.name,
           to: targetDb.name,
           connectionStringEnv: getConnectionStringEnvName(targetDb.type),
         });
+      } else if (targetConnectionString) {
+        references.push(toConnectionStringReference(service.name, targetConnectionString));
       }
     }
   }
@@ -194,38 +290,41 @@ function buildReferences(app: AspireApp, _chainMap: Map<string, FluentChain>): R
   return references;
 }
 
-function getConnectionStringEnvName(dbType: string): string {
-  switch (dbType) {
-    case 'postgres':
-      return 'DATABASE_URL';
-    case 'sqlserver':
-      return 'SQLSERVER_CONNECTION_STRING';
-    case 'mysql':
-      return 'MYSQL_URL';
-    case 'mongodb':
-      return 'MONGODB_URL';
-    case 'redis':
-      return 'REDIS_URL';
-    default:
-      return 'CONNECTION_STRING';
-  }
+/**
+ * Reference to an AddConnectionString resource: nothing is created in Coolify, the
+ * value is injected as ConnectionStrings__<name> (and its custom variable, if any)
+ */
+function toConnectionStringReference(from: string, target: ConnectionString): Reference {
+  return target.environmentVariable
+    ? { from, to: target.name, connectionStringEnv: target.environmentVariable }
+    : { from, to: target.name };
 }
 
-function validateApp(app: AspireApp, warnings: string[]): void {
+/**
+ * Warn about duplicate names and unresolved references, located at the declaring chain (or
+ * WithReference call) when the chains of the source are known
+ */
+function validateApp(app: AspireApp, warnings: ParseWarning[], chains: FluentChain[] = []): void {
   // Check for duplicate names
   const allNames = [
     ...app.databases.map((d) => d.name),
     ...app.services.map((s) => s.name),
     ...app.storage.map((s) => s.name),
     ...app.applications.map((a) => a.name),
+    ...app.connectionStrings.map((cs) => cs.name),
   ];
 
-  const seen = new Set<string>();
+  const seen = new Map<string, number>();
   for (const name of allNames) {
-    if (seen.has(name)) {
-      warnings.push(`Duplicate resource name: ${name}`);
+    const count = seen.get(name) ?? 0;
+    if (count > 0) {
+      const duplicate = chains.filter((chain) => chain.name === name)[count];
+      warnings.push({
+        message: `Duplicate resource name: ${name}`,
+        ...toLocation(duplicate?.span),
+      });
     }
-    seen.add(name);
+    seen.set(name, count + 1);
   }
 
   // Check for unresolved references
@@ -234,14 +333,58 @@ function validateApp(app: AspireApp, warnings: string[]): void {
       const found =
         app.databases.some((d) => d.variableName === ref || d.name === ref) ||
         app.services.some((s) => s.variableName === ref || s.name === ref) ||
-        app.storage.some((s) => s.variableName === ref || s.name === ref);
+        app.storage.some((s) => s.variableName === ref || s.name === ref) ||
+        app.applications.some((a) => a.variableName === ref || a.name === ref) ||
+        findConnectionString(app, ref) !== undefined;
 
       if (!found) {
-        warnings.push(`Unresolved reference in ${application.name}: ${ref}`);
+        const chain = chains.find((c) => c.name === application.name);
+        const call = chain?.chainedMethods.find(
+          (m) => m.method === 'WithReference' && m.args[0]?.trim() === ref
+        );
+        warnings.push({
+          message: `Unresolved reference in ${application.name}: ${ref}`,
+          ...toLocation(call?.span ?? chain?.span),
+        });
       }
     }
   }
 }
 
+/**
+ * Report the Aspire resources and methods the parser does not understand: they fail
+ * strict parsing, and are only warnings otherwise
+ */
+function createUnsupportedReporter(
+  options: ParseOptions,
+  errors: ParseError[],
+  warnings: ParseWarning[]
+): (message: string, span?: SourceSpan) => void {
+  return (message, span) => {
+    (options.strict ? errors : warnings).push({ message, ...toLocation(span) });
+  };
+}
+
+/**
+ * Variables holding the distributed application builder (builder by default)
+ */
+function findBuilderVariables(source: string): Set<string> {
+  const pattern = /(\w+)\s*=\s*DistributedApplication\s*\.\s*CreateBuilder\s*\(/g;
+  const names = new Set([...source.matchAll(pattern)].map((match) => match[1]));
+  return names.size > 0 ? names : new Set(['builder']);
+}
+
+function toLocation(span: SourceSpan | undefined): { line?: number; column?: number } {
+  return span ? { line: span.start.line, column: span.start.column } : {};
+}
+
+export type {
+  AspireManifest,
+  ManifestResource,
+  ManifestBinding,
+  ManifestInput,
+} from './manifest.js';
+
 // Re-export tokenizer utilities
 export { extractFluentChains, parseMethodChain, parseArgs } from './tokenizer.js';
+export type { FluentChain, MethodCall, SourceLocation, SourceSpan } from './tokenizer.js';
@@ -0,0 +1,393 @@
+/**
+ * Manifest parser - reads the publisher manifest of an AppHost
+ * (dotnet run --publisher manifest --output-path aspire-manifest.json)
+ */
+
+import type {
+  AspireApp,
+  Application,
+  Database,
+  DatabaseType,
+  Endpoint,
+  EnvironmentVariable,
+  Service,
+  ServiceType,
+  Volume,
+} from '../models/aspire.js';
+import { createEmptyAspireApp } from '../models/aspire.js';
+
+export interface AspireManifest {
+  resources: Record<string, ManifestResource>;
+}
+
+export interface ManifestResource {
+  type: string; // e.g. container.v0, project.v0, value.v0, parameter.v0
+  image?: string;
+  build?: { context: string; dockerfile?: string }; // container.v1 built from a Dockerfile
+  path?: string; // project.v0 .csproj, dockerfile.v0 Dockerfile
+  context?: string; // dockerfile.v0 build context
+  command?: string; // executable.v0
+  args?: string[];
+  workingDirectory?: string;
+  connectionString?: string;
+  env?: Record<string, string>;
+  bindings?: Record<string, ManifestBinding>;
+  volumes?: { name?: string; target: string; readOnly?: boolean }[];
+  bindMounts?: { source: string; target: string; readOnly?: boolean }[];
+  inputs?: Record<string, ManifestInput>; // parameter.v0
+}
+
+export interface ManifestInput {
+  type: string;
+  secret?: boolean;
+  default?: { value?: string; generate?: Record<string, unknown> };
+}
+
+export interface ManifestBinding {
+  scheme: string;
+  protocol?: string;
+  transport?: string;
+  port?: number; // Host port
+  targetPort?: number; // Container port
+  external?: boolean;
+}
+
+// Container images of the hosting integrations, matched against the image repository
+const DATABASE_IMAGES: [RegExp, DatabaseType][] = [
+  [/(^|\/)(postgres|pgvector)$/, 'postgres'],
+  [/(^|\/)mssql\/server$/, 'sqlserver'],
+  [/(^|\/)mysql$/, 'mysql'],
+  [/(^|\/)mariadb$/, 'mariadb'],
+  [/(^|\/)mongo$/, 'mongodb'],
+  [/(^|\/)redis(\/redis-stack)?$/, 'redis'],
+  [/(^|\/)valkey$/, 'valkey'],
+  [/(^|\/)garnet$/, 'garnet'],
+  [/(^|\/)keydb$/, 'keydb'],
+  [/(^|\/)dragonfly$/, 'dragonfly'],
+  [/(^|\/)clickhouse-server$/, 'clickhouse'],
+];
+
+const SERVICE_IMAGES: [RegExp, ServiceType][] = [
+  [/(^|\/)minio$/, 'minio'],
+  [/(^|\/)rabbitmq$/, 'rabbitmq'],
+  [/(^|\/)keycloak$/, 'keycloak'],
+  [/(^|\/)seq$/, 'seq'],
+  [/(^|\/)maildev$/, 'maildev'],
+  [/(^|\/)(cp-kafka|confluent-local)$/, 'kafka'],
+  [/(^|\/)elasticsearch$/, 'elasticsearch'],
+];
+
+const NODE_COMMANDS = ['npm', 'pnpm', 'yarn', 'node', 'bun'];
+
+// {resource.connectionString}, {resource.bindings.http.url}, {parameter.value}, ...
+const EXPRESSION_PATTERN = /\{([\w-]+)\.([\w.]+)\}/g;
+
+/**
+ * Build the application model of a manifest. References are collected per resource by
+ * name, like the WithReference targets of Program.cs; unsupported resources are reported.
+ */
+export function extractManifestApp(
+  manifest: AspireManifest,
+  reportUnsupported: (message: string) => void
+): AspireApp {
+  const app = createEmptyAspireApp();
+  const resources = manifest.resources ?? {};
+  const childDatabases: Database[] = [];
+
+  for (const [name, resource] of Object.entries(resources)) {
+    switch (resource.type) {
+      case 'container.v0':
+      case 'container.v1':
+        if (resource.build) {
+          app.applications.push({
+            ...extractApplication(name, resource, resources),
+            type: 'dockerfile',
+            buildPack: 'dockerfile',
+            sourcePath: resource.build.context,
+          });
+        } else {
+          addContainer(app, name, resource, resources);
+        }
+        break;
+
+      case 'project.v0':
+      case 'project.v1':
+        app.applications.push({
+          ...extractApplication(name, resource, resources),
+          type: 'project',
+          buildPack: 'dockerfile',
+          sourcePath: resource.path && dirnameOf(resource.path),
+          project: resource.path && basenameOf(resource.path).replace(/\.csproj$/, ''),
+        });
+        break;
+
+      case 'dockerfile.v0':
+        app.applications.push({
+          ...extractApplication(name, resource, resources),
+          type: 'dockerfile',
+          buildPack: 'dockerfile',
+          sourcePath: resource.context ?? (resource.path && dirnameOf(resource.path)),
+        });
+        break;
+
+      case 'executable.v0':
+        app.applications.push(extractExecutable(name, resource, resources));
+        break;
+
+      case 'value.v0': {
+        // AddDatabase: "{server.connectionString};Database=name"
+        const server = resource.connectionString?.match(/^\{([\w-]+)\.connectionString\};/)?.[1];
+        if (server && resources[server]) {
+          childDatabases.push({
+            name,
+            type: 'postgres',
+            serverName: server,
+            serverVariableName: server,
+            hasDataVolume: false,
+            environment: [],
+          });
+        } else {
+          reportUnsupported(`Unsupported manifest value: ${name}`);
+        }
+        break;
+      }
+
+      case 'parameter.v0': {
+        // AddConnectionString: "{name.value}", read from ConnectionStrings__<name>
+        if (resource.connectionString) {
+          app.connectionStrings.push({ name });
+          break;
+        }
+        const input = resource.inputs?.value;
+        app.parameters.push({
+          name,
+          secret: input?.secret ?? false,
+          ...(input?.default?.value !== undefined ? { value: input.default.value } : {}),
+        });
+        break;
+      }
+
+      default:
+        reportUnsupported(`Unsupported manifest resource type ${resource.type}: ${name}`);
+    }
+  }
+
+  // Child databases inherit the configuration of their server, which they replace
+  const servers = new Set<string>();
+  for (const child of childDatabases) {
+    const server = app.databases.find((db) => db.name === child.serverName);
+    if (!server) {
+      reportUnsupported(`Unsupported manifest value: ${child.name}`);
+      continue;
+    }
+    servers.add(server.name);
+    app.databases.push({
+      ...child,
+      type: server.type,
+      image: server.image,
+      imageTag: server.imageTag,
+      hostPort: server.hostPort,
+      hasDataVolume: server.hasDataVolume,
+      environment: server.environment,
+    });
+  }
+  app.databases = app.databases.filter((db) => db.serverName || !servers.has(db.name));
+
+  return app;
+}
+
+function addContainer(
+  app: AspireApp,
+  name: string,
+  resource: ManifestResource,
+  resources: Record<string, ManifestResource>
+): void {
+  const { image, imageTag } = splitImage(resource.image ?? '');
+  const repository = image.toLowerCase();
+  const volumes = extractVolumes(resource);
+  const hostPort = Object.values(resource.bindings ?? {}).find((b) => b.port)?.port;
+
+  const databaseType = DATABASE_IMAGES.find(([pattern]) => pattern.test(repository))?.[1];
+  if (databaseType) {
+    // Credentials and settings of database images are managed by Coolify
+    app.databases.push({
+      name,
+      type: databaseType,
+      variableName: name,
+      image,
+      imageTag,
+      hostPort,
+      hasDataVolume: volumes.some((v) => v.isData),
+      environment: [],
+    });
+    return;
+  }
+
+  const { environment, references } = extractEnvironment(name, resource, resources);
+  const serviceType = SERVICE_IMAGES.find(([pattern]) => pattern.test(repository))?.[1];
+  if (serviceType === 'minio') {
+    app.storage.push({
+      name,
+      type: 'minio',
+      variableName: name,
+      image,
+      imageTag,
+      hostPort,
+      environment,
+      volumes,
+    });
+    return;
+  }
+
+  const service: Service = {
+    name,
+    type: serviceType ?? 'custom',
+    variableName: name,
+    image,
+    imageTag,
+    hostPort,
+    environment,
+    volumes,
+    endpoints: extractEndpoints(resource),
+    references,
+  };
+  app.services.push(service);
+}
+
+function extractApplication(
+  name: string,
+  resource: ManifestResource,
+  resources: Record<string, ManifestResource>
+): Application {
+  const { environment, references } = extractEnvironment(name, resource, resources);
+  const volumes = extractVolumes(resource);
+
+  return {
+    name,
+    type: 'container',
+    variableName: name,
+    buildPack: 'dockerfile',
+    environment,
+    endpoints: extractEndpoints(resource),
+    references,
+    ...(volumes.length > 0 ? { volumes } : {}),
+  };
+}
+
+function extractExecutable(
+  name: string,
+  resource: ManifestResource,
+  resources: Record<string, ManifestResource>
+): Application {
+  const application: Application = {
+    ...extractApplication(name, resource, resources),
+    type: 'executable',
+    buildPack: 'dockerfile',
+    sourcePath: resource.workingDirectory,
+  };
+
+  // AddNpmApp: "npm run <script>"
+  if (resource.command && NODE_COMMANDS.includes(basenameOf(resource.command))) {
+    application.type = 'npm';
+    application.buildPack = 'nixpacks';
+    const args = resource.args ?? [];
+    const script = args[0] === 'run' ? args[1] : undefined;
+    if (script) {
+      application.runScript = script;
+    }
+  }
+
+  return application;
+}
+
+/**
+ * Split the env of a resource into literal variables, parameter expressions and
+ * references. Connection strings and bindings of other resources become references,
+ * injected at deploy time; expressions on the resource itself are dropped.
+ */
+function extractEnvironment(
+  name: string,
+  resource: ManifestResource,
+  resources: Record<string, ManifestResource>
+): { environment: EnvironmentVariable[]; references: string[] } {
+  const environment: EnvironmentVariable[] = [];
+  const references: string[] = [];
+
+  for (const [key, value] of Object.entries(resource.env ?? {})) {
+    const targets = [...value.matchAll(EXPRESSION_PATTERN)].map((match) => match[1]);
+    if (targets.length === 0) {
+      environment.push({ key, value, isExpression: false });
+      continue;
+    }
+
+    const referenced = targets.filter(
+      (target) => target !== name && !isParameter(resources[target])
+    );
+    for (const target of referenced) {
+      if (!references.includes(target)) {
+        references.push(target);
+      }
+    }
+
+    if (referenced.length === 0 && !targets.includes(name)) {
+      environment.push({ key, value, isExpression: true });
+    }
+  }
+
+  return { environment, references };
+}
+
+function isParameter(resource: ManifestResource | undefined): boolean {
+  return resource?.type === 'parameter.v0' && !resource.connectionString;
+}
+
+function extractEndpoints(resource: ManifestResource): Endpoint[] {
+  return Object.entries(resource.bindings ?? {}).map(([bindingName, binding]) => ({
+    name: bindingName,
+    port: binding.port,
+    targetPort: binding.targetPort,
+    protocol: toProtocol(binding.scheme),
+    isExternal: binding.external ?? false,
+  }));
+}
+
+function extractVolumes(resource: ManifestResource): Volume[] {
+  return [
+    ...(resource.volumes ?? []).map((volume) => ({
+      isData: true,
+      name: volume.name,
+      mountPath: volume.target,
+      isReadOnly: volume.readOnly || undefined,
+    })),
+    ...(resource.bindMounts ?? []).map((mount) => ({
+      isData: false,
+      name: mount.source,
+      mountPath: mount.target,
+      isReadOnly: mount.readOnly || undefined,
+    })),
+  ];
+}
+
+function toProtocol(scheme: string): Endpoint['protocol'] {
+  return scheme === 'https' || scheme === 'tcp' || scheme === 'udp' ? scheme : 'http';
+}
+
+/**
+ * Split "registry/repository:tag" into the image and its tag (digests stay in the image)
+ */
+function splitImage(reference: string): { image: string; imageTag?: string } {
+  const match = reference.match(/^(.+?)(?::([\w][\w.-]*))?$/);
+  if (!match || reference.includes('@')) {
+    return { image: reference };
+  }
+  return { image: match[1], imageTag: match[2] };
+}
+
+function dirnameOf(path: string): string {
+  const index = path.replace(/\\/g, '/').lastIndexOf('/');
+  return index > 0 ? path.slice(0, index).replace(/\\/g, '/') : '.';
+}
+
+function basenameOf(path: string): string {
+  return path.replace(/\\/g, '/').split('/').pop() ?? path;
+}
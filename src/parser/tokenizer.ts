@@ -7,6 +7,7 @@ export interface MethodCall {
   method: string;
   args: string[];
   rawArgs: string;
+  span?: SourceSpan; // From the method name to its closing parenthesis
 }
 
 export interface FluentChain {
@@ -17,6 +18,29 @@ export interface FluentChain {
   name: string;
   chainedMethods: MethodCall[];
   raw: string;
+  span?: SourceSpan; // From the declaration to the end of the chain
+  callSpan?: SourceSpan; // From the base object of the Add* call to its closing parenthesis
+}
+
+/**
+ * Position in the original source, 1-based
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export interface SourceSpan {
+  start: SourceLocation;
+  end: SourceLocation; // Position after the last character
+}
+
+/**
+ * Normalized source with the offset in the original source of each of its characters
+ */
+interface MappedSource {
+  text: string;
+  offsets: number[];
 }
 
 /**
@@ -27,7 +51,9 @@ export function extractFluentChains(source: string): FluentChain[] {
   const chains: FluentChain[] = [];
 
   // Normalize source: remove comments and collapse whitespace
-  const normalized = normalizeSource(source);
+  const mapped = normalizeMappedSource(source);
+  const normalized = mapped.text;
+  const toSpan = createSpanResolver(source, mapped);
 
   // Find all Add* method calls and extract chains using balanced parentheses matching
   // Allow optional whitespace between base object and method call
@@ -39,6 +65,7 @@ export function extractFluentChains(source: string): FluentChain[] {
     const [prefix, varName, baseObj, rootMethod] = match;
     const startIdx = match.index;
     const argsStartIdx = match.index + prefix.length;
+    const callStartIdx = startIdx + prefix.search(/\w+\s*\.\s*Add\w+(?:<[^>]+>)?\s*\($/);
 
     // Find the matching closing paren for the root method args
     const rootArgsEnd = findMatchingParen(normalized, argsStartIdx - 1);
@@ -76,6 +103,7 @@ export function extractFluentChains(source: string): FluentChain[] {
         method: methodName,
         args: parseArgs(rawArgs),
         rawArgs,
+        span: toSpan(chainEndIdx + 1, methodArgsEnd + 1),
       });
 
       chainEndIdx = methodArgsEnd + 1;
@@ -91,6 +119,8 @@ export function extractFluentChains(source: string): FluentChain[] {
       name: extractFirstStringArg(rootArgsRaw) || '',
       chainedMethods,
       raw,
+      span: toSpan(startIdx, chainEndIdx),
+      callSpan: toSpan(callStartIdx, rootArgsEnd + 1),
     };
 
     chains.push(chain);
@@ -234,17 +264,97 @@ export function extractNamedArgs(args: string[]): Record<string, string> {
  * Normalize C# source code for easier parsing
  */
 export function normalizeSource(source: string): string {
-  return (
-    source
-      // Remove single-line comments
-      .replace(/\/\/.*$/gm, '')
-      // Remove multi-line comments
-      .replace(/\/\*[\s\S]*?\*\//g, '')
-      // Collapse multiple whitespace/newlines into single space
-      .replace(/\s+/g, ' ')
-      // Normalize around operators (=> must be handled before = to avoid breaking lambda arrows)
-      .replace(/\s*=>\s*/g, ' => ')
-      .replace(/\s*=(?!>)\s*/g, ' = ')
-      .trim()
-  );
+  return normalizeMappedSource(source).text;
+}
+
+/**
+ * Normalize source code, keeping track of where each character comes from
+ */
+function normalizeMappedSource(source: string): MappedSource {
+  let mapped: MappedSource = {
+    text: source,
+    offsets: Array.from({ length: source.length }, (_, i) => i),
+  };
+
+  // Remove single-line comments
+  mapped = replaceMapped(mapped, /\/\/.*$/gm, '');
+  // Remove multi-line comments
+  mapped = replaceMapped(mapped, /\/\*[\s\S]*?\*\//g, '');
+  // Collapse multiple whitespace/newlines into single space
+  mapped = replaceMapped(mapped, /\s+/g, ' ');
+  // Normalize around operators (=> must be handled before = to avoid breaking lambda arrows)
+  mapped = replaceMapped(mapped, /\s*=>\s*/g, ' => ');
+  mapped = replaceMapped(mapped, /\s*=(?!>)\s*/g, ' = ');
+
+  // Trim
+  const start = mapped.text.length - mapped.text.trimStart().length;
+  const end = mapped.text.trimEnd().length;
+  return {
+    text: mapped.text.slice(start, Math.max(start, end)),
+    offsets: mapped.offsets.slice(start, Math.max(start, end)),
+  };
+}
+
+/**
+ * Replace every match of a global pattern by a fixed string. The characters of the
+ * replacement are mapped to the start of the match they replace.
+ */
+function replaceMapped(mapped: MappedSource, pattern: RegExp, replacement: string): MappedSource {
+  let text = '';
+  const offsets: number[] = [];
+  let last = 0;
+  const keep = (end: number): void => {
+    text += mapped.text.slice(last, end);
+    for (let i = last; i < end; i++) {
+      offsets.push(mapped.offsets[i]);
+    }
+  };
+
+  for (const match of mapped.text.matchAll(pattern)) {
+    keep(match.index);
+    text += replacement;
+    for (let i = 0; i < replacement.length; i++) {
+      offsets.push(mapped.offsets[match.index]);
+    }
+    last = match.index + match[0].length;
+  }
+
+  keep(mapped.text.length);
+  return { text, offsets };
+}
+
+/**
+ * Build the function converting a non-empty normalized range [start, end) to a span of the
+ * original source
+ */
+function createSpanResolver(
+  source: string,
+  mapped: MappedSource
+): (start: number, end: number) => SourceSpan {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const locate = (offset: number): SourceLocation => {
+    // Last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return (start, end) => ({
+    start: locate(mapped.offsets[start]),
+    end: locate(mapped.offsets[end - 1] + 1),
+  });
 }
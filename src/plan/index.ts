@@ -0,0 +1,350 @@
+/**
+ * Deployment plan - The Coolify resources of an Aspire model with their creation requests,
+ * built once and rendered by the generators or executed by the deployer
+ */
+
+import type {
+  AspireApp,
+  Application,
+  Database,
+  Service,
+  SqlServerInstance,
+  StorageService,
+} from '../models/aspire.js';
+import type { CoolifyDatabaseType } from '../models/coolify.js';
+import type {
+  DatabasePayload,
+  DockerImageApplicationPayload,
+  PrivateGithubAppApplicationPayload,
+  PublicRepositoryApplicationPayload,
+  ServicePayload,
+} from '../api/coolify.js';
+import { getReferenceEnvironmentKeys } from '../api/environment.js';
+import { buildDependencyGraph, sortTopologically, type ResourceNode } from '../api/graph.js';
+import {
+  buildComposeDocument,
+  buildSqlServerComposeDocument,
+  encodeComposeDocument,
+} from '../generators/coolify/compose.js';
+import { resolveApplicationDomain, type DomainStrategy } from '../generators/coolify/domains.js';
+import {
+  applyTypeMappings,
+  type AppliedMapping,
+  type TypeMappings,
+} from '../generators/coolify/mappings.js';
+
+export interface GitHubConfig {
+  repository: string;
+  branch?: string;
+  basePath?: string;
+  appUuid?: string; // GitHub App UUID for private repositories
+}
+
+/**
+ * Settings that shape the creation requests
+ */
+export interface PlanConfig {
+  projectUuid: string;
+  serverUuid: string;
+  environmentName: string;
+  instantDeploy?: boolean;
+  github?: GitHubConfig;
+  buildPack?: 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose';
+  domains?: DomainStrategy; // FQDNs of applications with external endpoints
+  mappings?: TypeMappings; // Coolify types overriding the built-in mapping of Aspire types
+}
+
+/**
+ * Database creation request: the Coolify database type (endpoint) and its payload
+ */
+export interface DatabaseCreation {
+  databaseType: CoolifyDatabaseType;
+  payload: DatabasePayload;
+}
+
+/**
+ * Application creation request: the Coolify source endpoint and its payload
+ */
+export type ApplicationCreation =
+  | { source: 'private-github-app'; payload: PrivateGithubAppApplicationPayload }
+  | { source: 'public'; payload: PublicRepositoryApplicationPayload }
+  | { source: 'dockerimage'; payload: DockerImageApplicationPayload };
+
+interface Planned<TRequest> {
+  resourceType: 'database' | 'service' | 'application';
+  request?: TRequest; // Unset when the resource cannot be created, see error
+  error?: string;
+  mapping?: { from: string; to: string }; // Type mapping of the config applied to the resource
+}
+
+export type PlannedResource =
+  | (Extract<ResourceNode, { kind: 'database' }> & Planned<DatabaseCreation>)
+  | (Extract<ResourceNode, { kind: 'sqlserver' | 'storage' | 'service' }> & Planned<ServicePayload>)
+  | (Extract<ResourceNode, { kind: 'application' }> & Planned<ApplicationCreation>);
+
+export interface DeploymentPlan {
+  app: AspireApp; // The model with the type mappings applied
+  resources: PlannedResource[]; // Each resource after the resources it depends on
+  mappings: AppliedMapping[];
+}
+
+/**
+ * Coolify database types for Aspire database types
+ */
+const COOLIFY_DATABASE_TYPES: Record<string, CoolifyDatabaseType> = {
+  postgres: 'postgresql',
+  mysql: 'mysql',
+  mariadb: 'mariadb',
+  mongodb: 'mongodb',
+  redis: 'redis',
+  valkey: 'redis', // Redis-compatible, Coolify has no Valkey type
+  keydb: 'keydb',
+  garnet: 'keydb', // Redis-compatible, Coolify has no Garnet type
+  dragonfly: 'dragonfly',
+  clickhouse: 'clickhouse',
+};
+
+/**
+ * Coolify service template names for Aspire service types
+ * Coolify uses full service template names (e.g., 'minio-community-edition')
+ */
+const SERVICE_TYPE_MAP: Record<string, string> = {
+  rabbitmq: 'rabbitmq',
+  minio: 'minio-community-edition',
+  azurite: 'minio-community-edition', // Use MinIO as Azure Storage fallback
+  blob: 'minio-community-edition',
+  keycloak: 'keycloak',
+  seq: 'seq',
+  maildev: 'mailpit',
+  mailpit: 'mailpit',
+  kafka: 'kafka',
+  elasticsearch: 'elasticsearch',
+};
+
+/**
+ * Build the deployment plan of a model: the type mappings are applied, then every resource
+ * gets its creation request in dependency order. Invalid mappings and dependency cycles
+ * throw; a resource that cannot be created carries the error instead of a request.
+ */
+export function buildDeploymentPlan(app: AspireApp, config: PlanConfig): DeploymentPlan {
+  const { app: mapped, applied } = applyTypeMappings(app, config.mappings);
+
+  const resources = sortTopologically(buildDependencyGraph(mapped)).map((node) =>
+    planResource(mapped, node, config, applied)
+  );
+
+  return { app: mapped, resources, mappings: applied };
+}
+
+/**
+ * API endpoint of the creation request of a planned resource
+ */
+export function getCreationEndpoint(resource: PlannedResource): string {
+  switch (resource.kind) {
+    case 'database':
+      return `/databases/${resource.request?.databaseType}`;
+    case 'application':
+      return `/applications/${resource.request?.source}`;
+    default:
+      return '/services';
+  }
+}
+
+function planResource(
+  app: AspireApp,
+  node: ResourceNode,
+  config: PlanConfig,
+  applied: AppliedMapping[]
+): PlannedResource {
+  const resourceType: PlannedResource['resourceType'] =
+    node.kind === 'database' || node.kind === 'application' ? node.kind : 'service';
+  const mapping = applied.find((m) => m.name === node.name && m.resourceType === resourceType);
+  const planned = { resourceType, mapping: mapping && { from: mapping.from, to: mapping.to } };
+
+  try {
+    switch (node.kind) {
+      case 'database':
+        return { ...node, ...planned, request: buildDatabaseCreation(node.resource, config) };
+      case 'sqlserver':
+        return { ...node, ...planned, request: buildSqlServerPayload(node.resource, config) };
+      case 'storage':
+      case 'service': {
+        // Reference values are set at deploy time, the compose document reads them by key
+        const keys = getReferenceEnvironmentKeys(app, node.name);
+        return { ...node, ...planned, request: buildServicePayload(node.resource, config, keys) };
+      }
+      case 'application':
+        return { ...node, ...planned, request: buildApplicationPayload(node.resource, config) };
+    }
+  } catch (err) {
+    return { ...node, ...planned, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Build the creation request for a database
+ */
+export function buildDatabaseCreation(db: Database, config: PlanConfig): DatabaseCreation {
+  const databaseType = getCoolifyDatabaseType(db.type);
+  if (!databaseType) {
+    throw new Error(`Unsupported database type: ${db.type}`);
+  }
+  return { databaseType, payload: buildDatabasePayload(db, config) };
+}
+
+/**
+ * Coolify database type of an Aspire database type, if Coolify has one
+ */
+export function getCoolifyDatabaseType(type: string): CoolifyDatabaseType | undefined {
+  return COOLIFY_DATABASE_TYPES[type];
+}
+
+/**
+ * Build the creation payload for a database
+ */
+export function buildDatabasePayload(db: Database, config: PlanConfig): DatabasePayload {
+  return {
+    server_uuid: config.serverUuid,
+    project_uuid: config.projectUuid,
+    environment_name: config.environmentName,
+    name: db.name,
+    instant_deploy: config.instantDeploy ?? true,
+    is_public: db.hostPort ? true : undefined,
+    public_port: db.hostPort,
+    image: db.image ? `${db.image}${db.imageTag ? `:${db.imageTag}` : ''}` : undefined,
+  };
+}
+
+/**
+ * Build the creation payload for a service. AddContainer resources have no Coolify
+ * template, so they are created from a synthesized docker-compose document instead.
+ */
+export function buildServicePayload(
+  service: Service | StorageService,
+  config: PlanConfig,
+  injectedKeys: string[] = []
+): ServicePayload {
+  const base = {
+    server_uuid: config.serverUuid,
+    project_uuid: config.projectUuid,
+    environment_name: config.environmentName,
+    name: service.name,
+    instant_deploy: config.instantDeploy ?? true,
+  };
+
+  if (service.type === 'custom') {
+    const compose = buildComposeDocument(service, { extraEnvironmentKeys: injectedKeys });
+    return { ...base, docker_compose_raw: encodeComposeDocument(compose) };
+  }
+
+  return { ...base, type: SERVICE_TYPE_MAP[service.type] || service.type };
+}
+
+/**
+ * Build the creation payload of a SQL Server instance: a compose service running the
+ * server, plus a one-shot init container creating its databases
+ */
+export function buildSqlServerPayload(
+  instance: SqlServerInstance,
+  config: PlanConfig
+): ServicePayload {
+  return {
+    server_uuid: config.serverUuid,
+    project_uuid: config.projectUuid,
+    environment_name: config.environmentName,
+    name: instance.name,
+    instant_deploy: config.instantDeploy ?? true,
+    docker_compose_raw: encodeComposeDocument(buildSqlServerComposeDocument(instance)),
+  };
+}
+
+/**
+ * Build the creation request for an application: a GitHub source when configured,
+ * otherwise a Docker image placeholder
+ */
+export function buildApplicationPayload(
+  application: Application,
+  config: PlanConfig
+): ApplicationCreation {
+  // Determine ports to expose
+  const ports = application.endpoints
+    .map((e) => e.targetPort || e.port)
+    .filter((p): p is number => p !== undefined);
+  const portsExposes = ports.length > 0 ? ports.join(',') : '80';
+  const domains = resolveApplicationDomain(application, config.domains, config.environmentName);
+
+  // If GitHub config is provided, create a GitHub-based application
+  if (config.github?.repository) {
+    // Calculate base directory: combine github basePath with application sourcePath
+    let baseDirectory = config.github.basePath || '';
+    if (application.sourcePath) {
+      // Clean the source path (remove leading ./ or ../)
+      const cleanSourcePath = application.sourcePath.replace(/^\.\.?\//, '');
+      baseDirectory = baseDirectory ? `${baseDirectory}/${cleanSourcePath}` : cleanSourcePath;
+    }
+
+    // Map application buildPack to Coolify-compatible build_pack
+    const mapBuildPack = (bp?: string): 'nixpacks' | 'dockerfile' | 'static' | 'dockercompose' => {
+      if (bp === 'dockerfile') return 'dockerfile';
+      if (bp === 'static') return 'static';
+      if (bp === 'dockercompose') return 'dockercompose';
+      return 'nixpacks'; // Default for 'nixpacks', 'node', and others
+    };
+
+    const buildPack = config.buildPack || mapBuildPack(application.buildPack);
+
+    // Use private GitHub App if appUuid is provided, otherwise use public repository
+    if (config.github.appUuid) {
+      return {
+        source: 'private-github-app',
+        payload: {
+          server_uuid: config.serverUuid,
+          project_uuid: config.projectUuid,
+          environment_name: config.environmentName,
+          github_app_uuid: config.github.appUuid,
+          git_repository: config.github.repository,
+          git_branch: config.github.branch || 'main',
+          build_pack: buildPack,
+          name: application.name,
+          domains,
+          ports_exposes: portsExposes,
+          base_directory: baseDirectory || undefined,
+          instant_deploy: config.instantDeploy ?? false,
+        },
+      };
+    }
+
+    return {
+      source: 'public',
+      payload: {
+        server_uuid: config.serverUuid,
+        project_uuid: config.projectUuid,
+        environment_name: config.environmentName,
+        git_repository: config.github.repository,
+        git_branch: config.github.branch || 'main',
+        build_pack: buildPack,
+        name: application.name,
+        domains,
+        ports_exposes: portsExposes,
+        base_directory: baseDirectory || undefined,
+        instant_deploy: config.instantDeploy ?? false,
+      },
+    };
+  }
+
+  // Fallback to Docker image placeholder
+  return {
+    source: 'dockerimage',
+    payload: {
+      server_uuid: config.serverUuid,
+      project_uuid: config.projectUuid,
+      environment_name: config.environmentName,
+      docker_registry_image_name: application.project || application.name,
+      docker_registry_image_tag: 'latest',
+      name: application.name,
+      domains,
+      ports_exposes: portsExposes,
+      instant_deploy: config.instantDeploy ?? false,
+    },
+  };
+}
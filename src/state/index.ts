@@ -0,0 +1,175 @@
+/**
+ * Deployment state - maps Aspire resources to the Coolify UUIDs deployed for them
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { AspireApp } from '../models/aspire.js';
+import type { DeployConfig, DeployResult } from '../api/deployer.js';
+import { buildDeploymentPlan, type PlannedResource } from '../plan/index.js';
+
+export type StateResourceType = 'database' | 'service' | 'application';
+
+export interface ResourceState {
+  type: StateResourceType;
+  uuid: string;
+  payloadHash?: string; // sha256 of the payload last sent for the resource
+}
+
+export interface DeploymentState {
+  version: 1;
+  environmentName: string;
+  projectUuid?: string;
+  serverUuid?: string;
+  resources: Record<string, ResourceState>; // Aspire resource name -> Coolify resource
+  updatedAt?: string;
+}
+
+export const DEFAULT_STATE_DIR = '.aspire2coolify';
+
+export const STATE_RESOURCE_TYPES: StateResourceType[] = ['database', 'service', 'application'];
+
+/**
+ * Path of the state file of an environment (e.g. .aspire2coolify/state.production.json)
+ */
+export function getStatePath(environmentName: string, directory = DEFAULT_STATE_DIR): string {
+  const fileName = `state.${environmentName.replace(/[^\w.-]/g, '_')}.json`;
+  return resolve(directory, fileName);
+}
+
+export function createEmptyState(environmentName: string): DeploymentState {
+  return {
+    version: 1,
+    environmentName,
+    resources: {},
+  };
+}
+
+/**
+ * Load the state of an environment, or undefined when nothing was recorded yet
+ */
+export function loadState(
+  environmentName: string,
+  directory = DEFAULT_STATE_DIR
+): DeploymentState | undefined {
+  const statePath = getStatePath(environmentName, directory);
+  if (!existsSync(statePath)) {
+    return undefined;
+  }
+
+  let state: DeploymentState;
+  try {
+    state = JSON.parse(readFileSync(statePath, 'utf-8'));
+  } catch (err) {
+    throw new Error(
+      `Invalid state file ${statePath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  if (state.version !== 1 || typeof state.resources !== 'object' || state.resources === null) {
+    throw new Error(`Invalid state file ${statePath}: unsupported format`);
+  }
+
+  return state;
+}
+
+/**
+ * Write the state of an environment and return the file path
+ */
+export function saveState(state: DeploymentState, directory = DEFAULT_STATE_DIR): string {
+  const statePath = getStatePath(state.environmentName, directory);
+  mkdirSync(dirname(statePath), { recursive: true });
+  writeFileSync(statePath, JSON.stringify(state, null, 2) + '\n');
+  return statePath;
+}
+
+/**
+ * Hash a payload so later runs can tell whether the model changed since it was deployed
+ */
+export function hashPayload(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+/**
+ * Record the resources of a deploy run. Failed resources keep their previous entry.
+ */
+export function recordDeployment(
+  state: DeploymentState,
+  app: AspireApp,
+  config: DeployConfig,
+  results: DeployResult[]
+): DeploymentState {
+  const plan = buildDeploymentPlan(app, config);
+  const next: DeploymentState = {
+    ...state,
+    environmentName: config.environmentName,
+    projectUuid: config.projectUuid,
+    serverUuid: config.serverUuid,
+    resources: { ...state.resources },
+    updatedAt: new Date().toISOString(),
+  };
+
+  for (const result of results) {
+    if (!result.success || !result.uuid || result.rolledBack) {
+      continue;
+    }
+
+    // Skipped resources were not changed by this run, so their recorded payload still applies
+    const previous = state.resources[result.name];
+    const planned = plan.resources.find(
+      (r) => r.name === result.name && r.resourceType === result.resourceType
+    );
+    const payloadHash =
+      result.skipped && previous?.uuid === result.uuid
+        ? previous.payloadHash
+        : planned && hashPlannedResource(planned);
+
+    next.resources[result.name] = { type: result.resourceType, uuid: result.uuid, payloadHash };
+  }
+
+  return next;
+}
+
+/**
+ * Record an existing Coolify resource for an Aspire resource
+ */
+export function importResource(
+  state: DeploymentState,
+  name: string,
+  type: StateResourceType,
+  uuid: string
+): DeploymentState {
+  return {
+    ...state,
+    resources: { ...state.resources, [name]: { type, uuid } },
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remove resources from the state (the Coolify resources are left untouched)
+ */
+export function forgetResources(state: DeploymentState, names: string[]): DeploymentState {
+  const resources = { ...state.resources };
+  for (const name of names) {
+    delete resources[name];
+  }
+
+  return {
+    ...state,
+    resources,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Hash of the creation payload of a planned resource, as recorded in the state
+ */
+export function hashPlannedResource(resource: PlannedResource): string | undefined {
+  const payload =
+    resource.kind === 'database' || resource.kind === 'application'
+      ? resource.request?.payload
+      : resource.request;
+  return payload !== undefined ? hashPayload(payload) : undefined;
+}
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   CoolifyApiClient,
+  describeApiErrorContext,
+  formatFieldErrors,
   type PostgresDatabasePayload,
   type MysqlDatabasePayload,
   type MongoDbDatabasePayload,
@@ -21,6 +23,7 @@ describe('CoolifyApiClient', () => {
     client = new CoolifyApiClient({
       apiUrl: 'https://coolify.example.com',
       token: 'test-token-123',
+      retry: { maxRetries: 0 }, // Retries are covered in their own describe block
     });
     mockFetch.mockReset();
   });
@@ -115,6 +118,7 @@ describe('CoolifyApiClient', () => {
         ok: false,
         status: 400,
         statusText: 'Bad Request',
+        headers: new Map(),
         text: async () => JSON.stringify({ message: 'Invalid payload' }),
       });
 
@@ -129,6 +133,7 @@ describe('CoolifyApiClient', () => {
         ok: false,
         status: 401,
         statusText: 'Unauthorized',
+        headers: new Map(),
         text: async () => JSON.stringify({ error: 'Invalid token' }),
       });
 
@@ -143,6 +148,7 @@ describe('CoolifyApiClient', () => {
         ok: false,
         status: 500,
         statusText: 'Internal Server Error',
+        headers: new Map(),
         text: async () => 'Server crashed',
       });
 
@@ -157,6 +163,7 @@ describe('CoolifyApiClient', () => {
         ok: false,
         status: 404,
         statusText: 'Not Found',
+        headers: new Map(),
         text: async () => '',
       });
 
@@ -311,6 +318,51 @@ describe('CoolifyApiClient', () => {
     });
   });
 
+  describe('createKeyDbDatabase, createDragonflyDatabase and createClickhouseDatabase', () => {
+    it('should post to the native database endpoints', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ uuid: 'db-uuid' }),
+      });
+
+      const payload = {
+        server_uuid: 'server-1',
+        project_uuid: 'project-1',
+        environment_name: 'production',
+        name: 'cache',
+      };
+
+      await client.createKeyDbDatabase(payload);
+      await client.createDragonflyDatabase(payload);
+      await client.createClickhouseDatabase(payload);
+
+      expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+        'https://coolify.example.com/api/v1/databases/keydb',
+        'https://coolify.example.com/api/v1/databases/dragonfly',
+        'https://coolify.example.com/api/v1/databases/clickhouse',
+      ]);
+    });
+  });
+
+  describe('persistent storages', () => {
+    it('should attach storages to applications and services', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ uuid: 'storage-uuid' }),
+      });
+
+      const payload = { type: 'persistent' as const, name: 'data', mount_path: '/data' };
+      await client.createApplicationStorage('app-1', payload);
+      await client.createServiceStorage('svc-1', payload);
+
+      expect(mockFetch.mock.calls.map((call) => [call[0], call[1].method])).toEqual([
+        ['https://coolify.example.com/api/v1/applications/app-1/storages', 'POST'],
+        ['https://coolify.example.com/api/v1/services/svc-1/storages', 'POST'],
+      ]);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual(payload);
+    });
+  });
+
   describe('createDockerImageApplication', () => {
     it('should create docker image application successfully', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -479,6 +531,7 @@ describe('CoolifyApiClient', () => {
         ok: false,
         status: 401,
         statusText: 'Unauthorized',
+        headers: new Map(),
       });
 
       const result = await client.testConnection();
@@ -581,6 +634,27 @@ describe('CoolifyApiClient', () => {
     });
   });
 
+  describe('getDatabase', () => {
+    it('should get database details with connection URLs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          uuid: 'db-1',
+          name: 'mydb',
+          internal_db_url: 'postgres://u:p@db-1:5432/postgres',
+        }),
+      });
+
+      const result = await client.getDatabase('db-1');
+
+      expect(result.data?.internal_db_url).toBe('postgres://u:p@db-1:5432/postgres');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/databases/db-1',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
   describe('listApplications', () => {
     it('should list applications successfully', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -616,4 +690,502 @@ describe('CoolifyApiClient', () => {
       );
     });
   });
+
+  describe('resource details', () => {
+    it('should get application details', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ uuid: 'app-1', name: 'webapp', ports_exposes: '8080' }),
+      });
+
+      const result = await client.getApplication('app-1');
+
+      expect(result.data?.ports_exposes).toBe('8080');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/applications/app-1',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should get service details', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ uuid: 'svc-1', name: 'rabbitmq', service_type: 'rabbitmq' }),
+      });
+
+      const result = await client.getService('svc-1');
+
+      expect(result.data?.service_type).toBe('rabbitmq');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/services/svc-1',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should list application and service envs', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ uuid: 'env-1', key: 'A', value: '1' }],
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const appEnvs = await client.listApplicationEnvs('app-1');
+      await client.listServiceEnvs('svc-1');
+
+      expect(appEnvs.data).toEqual([{ uuid: 'env-1', key: 'A', value: '1' }]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://coolify.example.com/api/v1/applications/app-1/envs',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://coolify.example.com/api/v1/services/svc-1/envs',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
+  describe('update resources', () => {
+    it('should patch database settings', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ uuid: 'db-1' }) });
+
+      await client.updateDatabase('db-1', { is_public: true, public_port: 5433 });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/databases/db-1',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ is_public: true, public_port: 5433 }),
+        })
+      );
+    });
+
+    it('should patch application settings', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ uuid: 'app-1' }) });
+
+      const result = await client.updateApplication('app-1', { ports_exposes: '8080' });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/applications/app-1',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ ports_exposes: '8080' }),
+        })
+      );
+    });
+  });
+
+  describe('deployments', () => {
+    it('should trigger a deployment', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          deployments: [{ message: 'queued', resource_uuid: 'app-1', deployment_uuid: 'dep-1' }],
+        }),
+      });
+
+      const result = await client.triggerDeploy('app-1');
+
+      expect(result.data?.deployments[0].deployment_uuid).toBe('dep-1');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/deploy?uuid=app-1&force=false',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should get a deployment and list running deployments', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ deployment_uuid: 'dep-1', status: 'in_progress' }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const deployment = await client.getDeployment('dep-1');
+      await client.listDeployments();
+
+      expect(deployment.data?.status).toBe('in_progress');
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://coolify.example.com/api/v1/deployments/dep-1',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://coolify.example.com/api/v1/deployments',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+  });
+
+  describe('environment variables', () => {
+    it('should create application env', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ uuid: 'env-uuid' }),
+      });
+
+      const result = await client.createApplicationEnv('app-1', {
+        key: 'NODE_ENV',
+        value: 'production',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.uuid).toBe('env-uuid');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/applications/app-1/envs',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ key: 'NODE_ENV', value: 'production' }),
+        })
+      );
+    });
+
+    it('should bulk update application envs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      const result = await client.updateApplicationEnvs('app-1', {
+        data: [{ key: 'BODY_SIZE_LIMIT', value: '10M' }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/applications/app-1/envs/bulk',
+        expect.objectContaining({ method: 'PATCH' })
+      );
+    });
+
+    it('should create service env', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ uuid: 'env-uuid' }),
+      });
+
+      await client.createServiceEnv('svc-1', { key: 'discovery.type', value: 'single-node' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/services/svc-1/envs',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should bulk update service envs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [],
+      });
+
+      await client.updateServiceEnvs('svc-1', { data: [{ key: 'A', value: 'b' }] });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/services/svc-1/envs/bulk',
+        expect.objectContaining({ method: 'PATCH' })
+      );
+    });
+  });
+
+  describe('delete resources', () => {
+    it('should delete application with cleanup options', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: 'Application deletion request queued.' }),
+      });
+
+      const result = await client.deleteApplication('app-1', {
+        deleteVolumes: true,
+        dockerCleanup: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/applications/app-1?delete_volumes=true&docker_cleanup=true',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should delete database without query when no options given', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ message: 'ok' }) });
+
+      await client.deleteDatabase('db-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/databases/db-1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should delete service', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ message: 'ok' }) });
+
+      await client.deleteService('svc-1', { deleteVolumes: false });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/services/svc-1?delete_volumes=false',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should delete project', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ message: 'Project deleted.' }),
+      });
+
+      await client.deleteProject('proj-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://coolify.example.com/api/v1/projects/proj-1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('structured errors', () => {
+    it('should report status, endpoint, request id and field errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        statusText: 'Unprocessable Content',
+        headers: new Map([['x-request-id', 'req-42']]),
+        text: async () =>
+          JSON.stringify({
+            message: 'Validation failed.',
+            errors: {
+              public_port: ['The public port field must be an integer.'],
+              image: 'Invalid image.',
+            },
+          }),
+      });
+
+      const result = await client.createPostgresDatabase({
+        server_uuid: 'server-1',
+        project_uuid: 'project-1',
+        environment_name: 'production',
+      });
+
+      expect(result.error).toBe('Validation failed.');
+      expect(result.apiError).toEqual({
+        status: 422,
+        message: 'Validation failed.',
+        fieldErrors: {
+          public_port: ['The public port field must be an integer.'],
+          image: ['Invalid image.'],
+        },
+        method: 'POST',
+        endpoint: '/databases/postgresql',
+        requestId: 'req-42',
+      });
+      expect(describeApiErrorContext(result.apiError!)).toBe(
+        'HTTP 422 on POST /databases/postgresql, request id req-42'
+      );
+      expect(formatFieldErrors(result.apiError)).toEqual([
+        'public_port: The public port field must be an integer.',
+        'image: Invalid image.',
+      ]);
+    });
+
+    it('should report network errors without a status', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('fetch failed'));
+
+      const result = await client.listProjects();
+
+      expect(result.apiError).toEqual({
+        message: 'fetch failed',
+        method: 'GET',
+        endpoint: '/projects',
+      });
+      expect(describeApiErrorContext(result.apiError!)).toBe('Request failed on GET /projects');
+      expect(formatFieldErrors(result.apiError)).toEqual([]);
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    let retryingClient: CoolifyApiClient;
+
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      text: async () => JSON.stringify({ message: `HTTP ${status}` }),
+    });
+
+    beforeEach(() => {
+      retryingClient = new CoolifyApiClient({
+        apiUrl: 'https://coolify.example.com',
+        token: 'test-token-123',
+        retry: { maxRetries: 2, baseDelayMs: 0 },
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry transient 5xx responses and network errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const result = await retryingClient.listProjects();
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the configured retries', async () => {
+      mockFetch.mockResolvedValue(errorResponse(503));
+
+      const result = await retryingClient.listProjects();
+
+      expect(result).toMatchObject({ success: false, error: 'HTTP 503' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      mockFetch.mockResolvedValue(errorResponse(422));
+
+      await retryingClient.listProjects();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { 'retry-after': '2' }))
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const pending = retryingClient.listProjects();
+
+      await vi.advanceTimersByTimeAsync(1900);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect((await pending).success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry creation requests the server may have processed', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ uuid: 'proj-1' }) });
+
+      const result = await retryingClient.createProject({ name: 'shop' });
+
+      expect(result).toMatchObject({ success: false, error: 'HTTP 502' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry creation requests that never reached the server', async () => {
+      const refused = new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+      mockFetch
+        .mockRejectedValueOnce(refused)
+        .mockResolvedValueOnce(errorResponse(503, { 'retry-after': '0' }))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ uuid: 'proj-1' }) });
+
+      const result = await retryingClient.createProject({ name: 'shop' });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry creation requests after a reset connection', async () => {
+      mockFetch.mockRejectedValueOnce(
+        new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } })
+      );
+
+      const result = await retryingClient.createProject({ name: 'shop' });
+
+      expect(result.success).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap Retry-After at the maximum delay', async () => {
+      vi.useFakeTimers();
+      const cappedClient = new CoolifyApiClient({
+        apiUrl: 'https://coolify.example.com',
+        token: 'test-token-123',
+        retry: { maxRetries: 1, baseDelayMs: 0, maxDelayMs: 1000 },
+      });
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { 'retry-after': '3600' }))
+        .mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+      const pending = cappedClient.listProjects();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await pending).success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      vi.useFakeTimers();
+      const timeoutClient = new CoolifyApiClient({
+        apiUrl: 'https://coolify.example.com',
+        token: 'test-token-123',
+        timeoutMs: 1000,
+        retry: { maxRetries: 0 },
+      });
+      mockFetch.mockImplementation(
+        (
+          _url: string,
+          init: { signal: { addEventListener: (type: string, listener: () => void) => void } }
+        ) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () =>
+              reject(new Error('This operation was aborted'))
+            );
+          })
+      );
+
+      const pending = timeoutClient.listProjects();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await pending).toMatchObject({ success: false, error: 'Request timed out after 1s' });
+    });
+
+    it('should not retry a deployment trigger that timed out', async () => {
+      vi.useFakeTimers();
+      const timeoutClient = new CoolifyApiClient({
+        apiUrl: 'https://coolify.example.com',
+        token: 'test-token-123',
+        timeoutMs: 1000,
+        retry: { maxRetries: 2, baseDelayMs: 0 },
+      });
+      mockFetch.mockImplementation(
+        (
+          _url: string,
+          init: { signal: { addEventListener: (type: string, listener: () => void) => void } }
+        ) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () =>
+              reject(new Error('This operation was aborted'))
+            );
+          })
+      );
+
+      const pending = timeoutClient.triggerDeploy('app-uuid');
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await pending).toMatchObject({ success: false, error: 'Request timed out after 1s' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a deployment trigger after a 5xx response', async () => {
+      mockFetch.mockResolvedValue(errorResponse(502));
+
+      const result = await retryingClient.triggerDeploy('app-uuid');
+
+      expect(result.success).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { deployAndWait, waitUntilHealthy, isFailedDeployment } from '../../src/api/deployments.js';
+import type { CoolifyApiClient } from '../../src/api/coolify.js';
+
+describe('deployments', () => {
+  let mockClient: {
+    triggerDeploy: ReturnType<typeof vi.fn>;
+    getDeployment: ReturnType<typeof vi.fn>;
+    getService: ReturnType<typeof vi.fn>;
+  };
+
+  const run = (timeoutMs = 60_000) =>
+    deployAndWait(mockClient as unknown as CoolifyApiClient, 'app-uuid', {
+      timeoutMs,
+      pollIntervalMs: 0,
+    });
+
+  beforeEach(() => {
+    mockClient = {
+      triggerDeploy: vi.fn().mockResolvedValue({
+        success: true,
+        data: {
+          deployments: [{ message: 'queued', resource_uuid: 'app-uuid', deployment_uuid: 'dep-1' }],
+        },
+      }),
+      getDeployment: vi.fn().mockResolvedValue({
+        success: true,
+        data: { deployment_uuid: 'dep-1', status: 'finished' },
+      }),
+      getService: vi.fn().mockResolvedValue({
+        success: true,
+        data: { uuid: 'svc-uuid', name: 'mq', status: 'running:healthy' },
+      }),
+    };
+  });
+
+  describe('deployAndWait', () => {
+    it('should poll until the deployment finishes', async () => {
+      mockClient.getDeployment
+        .mockResolvedValueOnce({
+          success: true,
+          data: { deployment_uuid: 'dep-1', status: 'queued' },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          data: { deployment_uuid: 'dep-1', status: 'in_progress' },
+        });
+
+      const result = await run();
+
+      expect(result.status).toBe('finished');
+      expect(result.deploymentUuid).toBe('dep-1');
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+      expect(mockClient.getDeployment).toHaveBeenCalledTimes(3);
+      expect(mockClient.triggerDeploy).toHaveBeenCalledWith('app-uuid');
+    });
+
+    it('should report failed builds', async () => {
+      mockClient.getDeployment.mockResolvedValue({
+        success: true,
+        data: { deployment_uuid: 'dep-1', status: 'failed' },
+      });
+
+      const result = await run();
+
+      expect(result).toMatchObject({ status: 'failed', error: 'Build failed' });
+      expect(isFailedDeployment(result)).toBe(true);
+    });
+
+    it('should report resources that start without a queued build', async () => {
+      mockClient.triggerDeploy.mockResolvedValue({
+        success: true,
+        data: { deployments: [{ message: 'Database started.', resource_uuid: 'app-uuid' }] },
+      });
+
+      const result = await run();
+
+      expect(result.status).toBe('started');
+      expect(isFailedDeployment(result)).toBe(false);
+      expect(mockClient.getDeployment).not.toHaveBeenCalled();
+    });
+
+    it('should time out on deployments that never finish', async () => {
+      mockClient.getDeployment.mockResolvedValue({ success: false, error: 'HTTP 502' });
+
+      const result = await run(0);
+
+      expect(result.status).toBe('timeout');
+      expect(result.error).toContain('(last error: HTTP 502)');
+    });
+
+    it('should fail when the deployment cannot be triggered', async () => {
+      mockClient.triggerDeploy.mockResolvedValue({ success: false, error: 'HTTP 404: Not Found' });
+
+      const result = await run();
+
+      expect(result).toMatchObject({ status: 'failed', error: 'HTTP 404: Not Found' });
+    });
+  });
+
+  describe('waitUntilHealthy', () => {
+    const started = { status: 'started' as const, durationMs: 0 };
+
+    it('should poll until the resource is running and healthy', async () => {
+      mockClient.getService
+        .mockResolvedValueOnce({ success: true, data: { uuid: 'svc-uuid', status: 'starting' } })
+        .mockResolvedValueOnce({
+          success: true,
+          data: { uuid: 'svc-uuid', status: 'running:unhealthy' },
+        });
+
+      const result = await waitUntilHealthy(
+        mockClient as unknown as CoolifyApiClient,
+        'service',
+        'svc-uuid',
+        started,
+        { pollIntervalMs: 0 }
+      );
+
+      expect(result.status).toBe('finished');
+      expect(mockClient.getService).toHaveBeenCalledTimes(3);
+    });
+
+    it('should time out with the last reported status', async () => {
+      mockClient.getService.mockResolvedValue({
+        success: true,
+        data: { uuid: 'svc-uuid', status: 'exited' },
+      });
+
+      const result = await waitUntilHealthy(
+        mockClient as unknown as CoolifyApiClient,
+        'service',
+        'svc-uuid',
+        started,
+        { timeoutMs: 0, pollIntervalMs: 0 }
+      );
+
+      expect(result).toMatchObject({
+        status: 'timeout',
+        error: 'Not healthy within 0s (status: exited)',
+      });
+    });
+  });
+});
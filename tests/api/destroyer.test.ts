@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  findDestroyTargets,
+  destroyFromCoolify,
+  type DestroyConfig,
+} from '../../src/api/destroyer.js';
+import type { CoolifyApiClient } from '../../src/api/coolify.js';
+import type { AspireApp } from '../../src/models/aspire.js';
+import { createEmptyAspireApp } from '../../src/models/aspire.js';
+
+describe('destroyer', () => {
+  let mockClient: {
+    listDatabases: ReturnType<typeof vi.fn>;
+    listApplications: ReturnType<typeof vi.fn>;
+    listServices: ReturnType<typeof vi.fn>;
+    deleteDatabase: ReturnType<typeof vi.fn>;
+    deleteService: ReturnType<typeof vi.fn>;
+    deleteApplication: ReturnType<typeof vi.fn>;
+    deleteProject: ReturnType<typeof vi.fn>;
+  };
+
+  const config: DestroyConfig = {
+    projectUuid: 'project-123',
+    environmentName: 'production',
+  };
+
+  const inTarget = { project_uuid: 'project-123', environment: { name: 'production' } };
+
+  const app: AspireApp = {
+    ...createEmptyAspireApp(),
+    databases: [{ name: 'db', type: 'postgres', hasDataVolume: false, environment: [] }],
+    services: [
+      { name: 'mq', type: 'rabbitmq', environment: [], volumes: [], endpoints: [], references: [] },
+    ],
+    storage: [{ name: 'files', type: 'minio', environment: [], volumes: [] }],
+    applications: [
+      {
+        name: 'web',
+        type: 'npm',
+        buildPack: 'nixpacks',
+        environment: [],
+        endpoints: [],
+        references: [],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      listDatabases: vi.fn().mockResolvedValue({
+        success: true,
+        data: [
+          { uuid: 'db-uuid', name: 'db', ...inTarget },
+          { uuid: 'other-db', name: 'unrelated', ...inTarget },
+        ],
+      }),
+      listApplications: vi.fn().mockResolvedValue({
+        success: true,
+        data: [{ uuid: 'web-uuid', name: 'web', ...inTarget }],
+      }),
+      listServices: vi.fn().mockResolvedValue({
+        success: true,
+        data: [
+          { uuid: 'mq-uuid', name: 'mq', ...inTarget },
+          {
+            uuid: 'files-uuid',
+            name: 'files',
+            project_uuid: 'project-123',
+            environment: { name: 'staging' },
+          },
+        ],
+      }),
+      deleteDatabase: vi.fn().mockResolvedValue({ success: true, data: { message: 'ok' } }),
+      deleteService: vi.fn().mockResolvedValue({ success: true, data: { message: 'ok' } }),
+      deleteApplication: vi.fn().mockResolvedValue({ success: true, data: { message: 'ok' } }),
+      deleteProject: vi.fn().mockResolvedValue({ success: true, data: { message: 'ok' } }),
+    };
+  });
+
+  describe('findDestroyTargets', () => {
+    it('should match model resources in the target environment, applications first', async () => {
+      const targets = await findDestroyTargets(
+        mockClient as unknown as CoolifyApiClient,
+        app,
+        config,
+        {
+          onProgress: () => {},
+        }
+      );
+
+      expect(targets).toEqual([
+        { resourceType: 'application', name: 'web', uuid: 'web-uuid' },
+        { resourceType: 'service', name: 'mq', uuid: 'mq-uuid' },
+        { resourceType: 'database', name: 'db', uuid: 'db-uuid' },
+      ]);
+    });
+    it('should ignore the state of another project', async () => {
+      const logs: string[] = [];
+      const targets = await findDestroyTargets(
+        mockClient as unknown as CoolifyApiClient,
+        app,
+        {
+          ...config,
+          state: {
+            version: 1,
+            environmentName: 'production',
+            projectUuid: 'project-other',
+            resources: { web: { type: 'application', uuid: 'other-web' } },
+          },
+        },
+        { onProgress: (message) => logs.push(message) }
+      );
+
+      expect(targets.find((t) => t.name === 'web')?.uuid).toBe('web-uuid');
+      expect(logs).toContain('  ⚠ State was recorded for project project-other, ignoring it');
+    });
+
+    it('should ignore state entries pointing to another project or environment', async () => {
+      mockClient.listDatabases.mockResolvedValueOnce({
+        success: true,
+        data: [
+          {
+            uuid: 'staging-db',
+            name: 'db',
+            project_uuid: 'project-123',
+            environment: { name: 'staging' },
+          },
+        ],
+      });
+
+      const targets = await findDestroyTargets(
+        mockClient as unknown as CoolifyApiClient,
+        app,
+        {
+          ...config,
+          state: {
+            version: 1,
+            environmentName: 'production',
+            projectUuid: 'project-123',
+            resources: { db: { type: 'database', uuid: 'staging-db' } },
+          },
+        },
+        { onProgress: () => {} }
+      );
+
+      expect(targets.find((t) => t.resourceType === 'database')).toBeUndefined();
+    });
+  });
+
+  describe('destroyFromCoolify', () => {
+    const targets = [
+      { resourceType: 'application' as const, name: 'web', uuid: 'web-uuid' },
+      { resourceType: 'service' as const, name: 'mq', uuid: 'mq-uuid' },
+      { resourceType: 'database' as const, name: 'db', uuid: 'db-uuid' },
+    ];
+
+    it('should delete each target with the matching endpoint', async () => {
+      const result = await destroyFromCoolify(
+        mockClient as unknown as CoolifyApiClient,
+        targets,
+        config,
+        {
+          onProgress: () => {},
+        }
+      );
+
+      expect(mockClient.deleteApplication).toHaveBeenCalledWith(
+        'web-uuid',
+        expect.objectContaining({ deleteVolumes: false, deleteConfigurations: true })
+      );
+      expect(mockClient.deleteService).toHaveBeenCalledWith('mq-uuid', expect.any(Object));
+      expect(mockClient.deleteDatabase).toHaveBeenCalledWith('db-uuid', expect.any(Object));
+      expect(mockClient.deleteProject).not.toHaveBeenCalled();
+      expect(result.successful).toBe(3);
+      expect(result.failed).toBe(0);
+    });
+
+    it('should pass deleteVolumes and delete the project when requested', async () => {
+      const result = await destroyFromCoolify(
+        mockClient as unknown as CoolifyApiClient,
+        targets,
+        { ...config, deleteVolumes: true, deleteProject: true },
+        { onProgress: () => {} }
+      );
+
+      expect(mockClient.deleteDatabase).toHaveBeenCalledWith(
+        'db-uuid',
+        expect.objectContaining({ deleteVolumes: true })
+      );
+      expect(mockClient.deleteProject).toHaveBeenCalledWith('project-123');
+      expect(result.results[3]).toEqual(
+        expect.objectContaining({ resourceType: 'project', success: true })
+      );
+    });
+
+    it('should not call the API in dry run mode', async () => {
+      const logs: string[] = [];
+      const result = await destroyFromCoolify(
+        mockClient as unknown as CoolifyApiClient,
+        targets,
+        { ...config, deleteProject: true },
+        { dryRun: true, onProgress: (msg) => logs.push(msg) }
+      );
+
+      expect(mockClient.deleteApplication).not.toHaveBeenCalled();
+      expect(mockClient.deleteProject).not.toHaveBeenCalled();
+      expect(result.successful).toBe(4);
+      expect(logs.every((l) => l.startsWith('[DRY RUN]'))).toBe(true);
+    });
+
+    it('should record failures and continue', async () => {
+      mockClient.deleteService.mockResolvedValueOnce({ success: false, error: 'Not found' });
+      mockClient.deleteDatabase.mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await destroyFromCoolify(
+        mockClient as unknown as CoolifyApiClient,
+        targets,
+        config,
+        {
+          onProgress: () => {},
+        }
+      );
+
+      expect(result.successful).toBe(1);
+      expect(result.failed).toBe(2);
+      expect(result.results[1].error).toBe('Not found');
+      expect(result.results[2].error).toBe('Network error');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import type { Application } from '../../src/models/aspire.js';
+import {
+  resolveEnvironment,
+  createConnectionStringEnvironment,
+  mergeEnvironment,
+  createServiceDiscoveryEnvironment,
+  createSqlServerConnectionString,
+} from '../../src/api/environment.js';
+
+describe('resolveEnvironment', () => {
+  it('should pass literal values through', () => {
+    const result = resolveEnvironment([
+      { key: 'NODE_ENV', value: 'production', isExpression: false },
+    ]);
+
+    expect(result.variables).toEqual([
+      { key: 'NODE_ENV', value: 'production', is_preview: false, is_literal: true },
+    ]);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should treat values without isExpression as literals', () => {
+    const result = resolveEnvironment([{ key: 'A', value: 'b' }]);
+
+    expect(result.variables).toHaveLength(1);
+    expect(result.unresolved).toHaveLength(0);
+  });
+
+  it('should resolve numeric and boolean constant expressions', () => {
+    const result = resolveEnvironment([
+      { key: 'PORT', value: '8080', isExpression: true },
+      { key: 'DEBUG', value: 'false', isExpression: true },
+    ]);
+
+    expect(result.variables.map((v) => v.value)).toEqual(['8080', 'false']);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should report unknown expressions as unresolved', () => {
+    const result = resolveEnvironment([
+      { key: 'DB_URL', value: 'db.ConnectionString', isExpression: true },
+    ]);
+
+    expect(result.variables).toEqual([]);
+    expect(result.unresolved).toEqual([
+      { key: 'DB_URL', value: 'db.ConnectionString', isExpression: true },
+    ]);
+  });
+
+  it('should resolve expressions through the context', () => {
+    const result = resolveEnvironment([{ key: 'API_URL', value: 'apiUrl', isExpression: true }], {
+      resolveExpression: (expr) => (expr === 'apiUrl' ? 'https://api.example.com' : undefined),
+    });
+
+    expect(result.variables).toEqual([
+      { key: 'API_URL', value: 'https://api.example.com', is_preview: false, is_literal: true },
+    ]);
+  });
+
+  it('should mark the values of secret parameters as shown once', () => {
+    const result = resolveEnvironment([
+      {
+        key: 'API_KEY',
+        value: 's3cret',
+        isExpression: false,
+        parameter: 'api-key',
+        isSecret: true,
+      },
+    ]);
+
+    expect(result.variables).toEqual([
+      { key: 'API_KEY', value: 's3cret', is_preview: false, is_literal: true, is_shown_once: true },
+    ]);
+  });
+});
+
+describe('createConnectionStringEnvironment', () => {
+  it('should emit the generic and .NET-style keys', () => {
+    const vars = createConnectionStringEnvironment(
+      { from: 'api', to: 'db', connectionStringEnv: 'DATABASE_URL' },
+      'postgres://host/db'
+    );
+
+    expect(vars.map((v) => [v.key, v.value])).toEqual([
+      ['DATABASE_URL', 'postgres://host/db'],
+      ['ConnectionStrings__db', 'postgres://host/db'],
+    ]);
+  });
+
+  it('should only emit ConnectionStrings__ when there is no generic name', () => {
+    const vars = createConnectionStringEnvironment({ from: 'api', to: 'db' }, 'url');
+
+    expect(vars.map((v) => v.key)).toEqual(['ConnectionStrings__db']);
+  });
+});
+
+describe('createSqlServerConnectionString', () => {
+  it('should log in as SA and trust the server certificate', () => {
+    expect(createSqlServerConnectionString('sql-abc', 'pw', 'orders')).toBe(
+      'Server=sql-abc,1433;Database=orders;User ID=sa;Password=pw;TrustServerCertificate=true'
+    );
+  });
+
+  it('should omit the database of a server reference', () => {
+    expect(createSqlServerConnectionString('sql-abc', 'pw')).not.toContain('Database=');
+  });
+});
+
+describe('mergeEnvironment', () => {
+  it('should let later groups override earlier keys', () => {
+    const merged = mergeEnvironment(
+      [
+        { key: 'A', value: '1' },
+        { key: 'B', value: '2' },
+      ],
+      [{ key: 'A', value: '3' }]
+    );
+
+    expect(merged).toEqual([
+      { key: 'A', value: '3' },
+      { key: 'B', value: '2' },
+    ]);
+  });
+});
+
+describe('createServiceDiscoveryEnvironment', () => {
+  const target = (endpoints: Application['endpoints']): Application => ({
+    name: 'api',
+    type: 'project',
+    buildPack: 'dockerfile',
+    environment: [],
+    endpoints,
+    references: [],
+  });
+
+  it('should default to an http endpoint on port 80', () => {
+    const vars = createServiceDiscoveryEnvironment(target([]), 'api-uuid');
+
+    expect(vars.map((v) => [v.key, v.value])).toEqual([
+      ['services__api__http__0', 'http://api-uuid:80'],
+    ]);
+  });
+
+  it('should emit one variable per named endpoint', () => {
+    const vars = createServiceDiscoveryEnvironment(
+      target([
+        { protocol: 'http', port: 8080, isExternal: false },
+        { name: 'grpc', protocol: 'https', port: 5001, targetPort: 5002, isExternal: false },
+      ]),
+      'api-uuid'
+    );
+
+    expect(vars.map((v) => [v.key, v.value])).toEqual([
+      ['services__api__http__0', 'http://api-uuid:8080'],
+      ['services__api__grpc__0', 'https://api-uuid:5002'],
+    ]);
+  });
+
+  it('should use the first exposed port for endpoints without a port', () => {
+    const vars = createServiceDiscoveryEnvironment(
+      target([
+        { protocol: 'http', isExternal: true },
+        { name: 'admin', protocol: 'http', port: 3000, isExternal: false },
+      ]),
+      'api-uuid'
+    );
+
+    expect(vars[0].value).toBe('http://api-uuid:3000');
+  });
+});
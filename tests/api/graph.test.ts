@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDependencyGraph,
+  sortTopologically,
+  getWaitForTargets,
+  DependencyCycleError,
+} from '../../src/api/graph.js';
+import type { AspireApp, Application } from '../../src/models/aspire.js';
+import { createEmptyAspireApp } from '../../src/models/aspire.js';
+
+function application(name: string, extra: Partial<Application> = {}): Application {
+  return {
+    name,
+    type: 'project',
+    buildPack: 'nixpacks',
+    environment: [],
+    endpoints: [],
+    references: [],
+    ...extra,
+  };
+}
+
+describe('graph', () => {
+  describe('buildDependencyGraph', () => {
+    it('should collect edges from WaitFor, references and service references', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        databases: [
+          {
+            name: 'db',
+            type: 'postgres',
+            variableName: 'postgresdb',
+            hasDataVolume: false,
+            environment: [],
+          },
+        ],
+        services: [
+          {
+            name: 'mq',
+            type: 'rabbitmq',
+            environment: [],
+            volumes: [],
+            endpoints: [],
+            references: ['postgresdb'],
+          },
+        ],
+        applications: [
+          application('migrations', { variableName: 'migrator' }),
+          application('api', { references: ['mq'], waitFor: ['migrator', 'unknown'] }),
+        ],
+        references: [{ from: 'api', to: 'db', connectionStringEnv: 'DATABASE_URL' }],
+      };
+
+      const nodes = buildDependencyGraph(app);
+
+      expect(nodes.map((n) => [n.kind, n.name, n.dependsOn])).toEqual([
+        ['database', 'db', []],
+        ['service', 'mq', ['database:db']],
+        ['application', 'migrations', []],
+        ['application', 'api', ['database:db', 'service:mq', 'application:migrations']],
+      ]);
+    });
+
+    it('should ignore self references', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        applications: [application('api', { references: ['api'], waitFor: ['api'] })],
+      };
+
+      expect(buildDependencyGraph(app)[0].dependsOn).toEqual([]);
+    });
+
+    it('should serve SQL Server databases from their instance node', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        databases: [
+          {
+            name: 'ordersdb',
+            type: 'sqlserver',
+            variableName: 'orders',
+            serverName: 'sql',
+            serverVariableName: 'sqlServer',
+            hasDataVolume: false,
+            environment: [],
+          },
+        ],
+        applications: [application('api', { references: ['orders'], waitFor: ['sqlServer'] })],
+        references: [{ from: 'api', to: 'ordersdb' }],
+      };
+
+      const nodes = buildDependencyGraph(app);
+
+      expect(nodes.map((n) => [n.kind, n.name, n.dependsOn])).toEqual([
+        ['sqlserver', 'sql', []],
+        ['application', 'api', ['sqlserver:sql']],
+      ]);
+      expect([...getWaitForTargets(nodes)]).toEqual(['sqlserver:sql']);
+    });
+  });
+
+  describe('sortTopologically', () => {
+    it('should place dependencies first and keep declaration order otherwise', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        applications: [
+          application('web', { waitFor: ['api'] }),
+          application('api', { waitFor: ['migrations'] }),
+          application('worker'),
+          application('migrations'),
+        ],
+      };
+
+      const ordered = sortTopologically(buildDependencyGraph(app));
+
+      expect(ordered.map((n) => n.name)).toEqual(['migrations', 'api', 'web', 'worker']);
+    });
+
+    it('should keep resources of different kinds sharing a name', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        databases: [
+          {
+            name: 'analytics',
+            type: 'postgres',
+            variableName: 'analyticsDb',
+            hasDataVolume: false,
+            environment: [],
+          },
+        ],
+        applications: [application('analytics', { references: ['analyticsDb'] })],
+        references: [{ from: 'analytics', to: 'analytics', connectionStringEnv: 'DATABASE_URL' }],
+      };
+
+      const ordered = sortTopologically(buildDependencyGraph(app));
+
+      expect(ordered.map((n) => [n.id, n.dependsOn])).toEqual([
+        ['database:analytics', []],
+        ['application:analytics', ['database:analytics']],
+      ]);
+    });
+
+    it('should report cycles with their path', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        applications: [
+          application('a', { waitFor: ['b'] }),
+          application('b', { references: ['c'] }),
+          application('c', { waitFor: ['a'] }),
+        ],
+      };
+
+      expect(() => sortTopologically(buildDependencyGraph(app))).toThrow(DependencyCycleError);
+      expect(() => sortTopologically(buildDependencyGraph(app))).toThrow(
+        'Dependency cycle detected: a → b → c → a'
+      );
+    });
+  });
+
+  describe('getWaitForTargets', () => {
+    it('should resolve WaitFor targets by variable or resource name', () => {
+      const app: AspireApp = {
+        ...createEmptyAspireApp(),
+        services: [
+          {
+            name: 'mq',
+            type: 'rabbitmq',
+            variableName: 'rabbit',
+            environment: [],
+            volumes: [],
+            endpoints: [],
+            references: [],
+          },
+        ],
+        applications: [application('api', { waitFor: ['rabbit'] })],
+      };
+
+      expect([...getWaitForTargets(buildDependencyGraph(app))]).toEqual(['service:mq']);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { PassThrough } from 'node:stream';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AspireApp } from '../../src/models/aspire.js';
+import { createEmptyAspireApp } from '../../src/models/aspire.js';
+import {
+  getUsedParameters,
+  resolveParameters,
+  applyParameters,
+  redactSecretParameters,
+  resolveConnectionStrings,
+} from '../../src/api/parameters.js';
+
+const app: AspireApp = {
+  ...createEmptyAspireApp(),
+  applications: [
+    {
+      name: 'api',
+      type: 'project',
+      buildPack: 'nixpacks',
+      environment: [
+        { key: 'API_KEY', value: 'apiKey', isExpression: true },
+        { key: 'REGION', value: 'region.Resource', isExpression: true },
+        { key: 'LOG_LEVEL', value: 'debug' },
+      ],
+      endpoints: [],
+      references: [],
+    },
+  ],
+  parameters: [
+    { name: 'api-key', variableName: 'apiKey', secret: true },
+    { name: 'region', variableName: 'region', secret: false, value: 'eu-west' },
+    { name: 'unused', secret: false },
+  ],
+};
+
+describe('getUsedParameters', () => {
+  it('should return the parameters read by an environment', () => {
+    expect(getUsedParameters(app).map((p) => p.name)).toEqual(['api-key', 'region']);
+  });
+});
+
+describe('resolveParameters', () => {
+  it('should prefer environment variables over the config and the default', async () => {
+    const result = await resolveParameters(app, {
+      env: { 'Parameters__api-key': 'from-env', Parameters__region: 'us-east' },
+      values: { 'api-key': 'from-config', region: 'ap-south' },
+      prompt: false,
+    });
+
+    expect(result.values).toEqual({ 'api-key': 'from-env', region: 'us-east' });
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should fall back to the config, then to the default value', async () => {
+    const result = await resolveParameters(app, {
+      env: {},
+      values: { 'api-key': 'from-config' },
+      prompt: false,
+    });
+
+    expect(result.values).toEqual({ 'api-key': 'from-config', region: 'eu-west' });
+  });
+
+  it('should report parameters without a value as unresolved', async () => {
+    const result = await resolveParameters(app, { env: {}, prompt: false });
+
+    expect(result.unresolved.map((p) => p.name)).toEqual(['api-key']);
+  });
+
+  it('should skip secret parameters when asked to', async () => {
+    const result = await resolveParameters(app, {
+      env: { 'Parameters__api-key': 'from-env' },
+      secrets: false,
+      prompt: false,
+    });
+
+    expect(result.values).toEqual({ region: 'eu-west' });
+    expect(result.unresolved).toEqual([]);
+  });
+
+  describe('prompt', () => {
+    const stdin = Object.getOwnPropertyDescriptor(process, 'stdin')!;
+    const isTTY = process.stdout.isTTY;
+
+    afterEach(() => {
+      Object.defineProperty(process, 'stdin', stdin);
+      process.stdout.isTTY = isTTY;
+      vi.restoreAllMocks();
+    });
+
+    it('should not echo the value typed for a secret parameter', async () => {
+      const input = Object.assign(new PassThrough(), { isTTY: true });
+      Object.defineProperty(process, 'stdin', { value: input, configurable: true });
+      process.stdout.isTTY = true;
+      let written = '';
+      vi.spyOn(process.stdout, 'write').mockImplementation((chunk, ...args) => {
+        written += String(chunk);
+        const callback = args.find((arg) => typeof arg === 'function');
+        callback?.();
+        return true;
+      });
+
+      const resolving = resolveParameters(app, { env: {} });
+      input.write('hunter2\r');
+      const result = await resolving;
+
+      expect(result.values['api-key']).toBe('hunter2');
+      expect(written).toContain('Enter the value of secret parameter api-key: ');
+      expect(written).not.toContain('hunter2');
+    });
+
+    it('should use the placeholder instead of prompting', async () => {
+      const input = Object.assign(new PassThrough(), { isTTY: true });
+      Object.defineProperty(process, 'stdin', { value: input, configurable: true });
+      const write = vi.spyOn(process.stdout, 'write');
+
+      const result = await resolveParameters(app, { env: {}, placeholder: 'dry-run-value' });
+
+      expect(result.values['api-key']).toBe('dry-run-value');
+      expect(result.unresolved).toEqual([]);
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('applyParameters', () => {
+  it('should replace parameter expressions with their values', () => {
+    const result = applyParameters(app, { 'api-key': 's3cret', region: 'eu-west' });
+
+    expect(result.applications[0].environment).toEqual([
+      {
+        key: 'API_KEY',
+        value: 's3cret',
+        isExpression: false,
+        parameter: 'api-key',
+        isSecret: true,
+      },
+      { key: 'REGION', value: 'eu-west', isExpression: false, parameter: 'region' },
+      { key: 'LOG_LEVEL', value: 'debug' },
+    ]);
+  });
+
+  it('should keep the expression of parameters without a value', () => {
+    const result = applyParameters(app, {});
+
+    expect(result.applications[0].environment[0]).toEqual({
+      key: 'API_KEY',
+      value: 'apiKey',
+      isExpression: true,
+      parameter: 'api-key',
+      isSecret: true,
+    });
+  });
+
+  it('should match manifest value expressions', () => {
+    const manifestApp: AspireApp = {
+      ...app,
+      applications: [
+        {
+          ...app.applications[0],
+          environment: [{ key: 'API_KEY', value: '{api-key.value}', isExpression: true }],
+        },
+      ],
+    };
+
+    const result = applyParameters(manifestApp, { 'api-key': 's3cret' });
+
+    expect(result.applications[0].environment[0]).toMatchObject({ value: 's3cret' });
+  });
+});
+
+describe('redactSecretParameters', () => {
+  it('should hide the default values of secret parameters only', () => {
+    const redacted = redactSecretParameters({
+      ...app,
+      parameters: [
+        { name: 'password', secret: true, value: 's3cret' },
+        { name: 'region', secret: false, value: 'eu-west' },
+        { name: 'token', secret: true },
+      ],
+    });
+
+    expect(redacted.parameters).toEqual([
+      { name: 'password', secret: true, value: '(hidden)' },
+      { name: 'region', secret: false, value: 'eu-west' },
+      { name: 'token', secret: true },
+    ]);
+  });
+});
+
+describe('resolveConnectionStrings', () => {
+  const external: AspireApp = {
+    ...createEmptyAspireApp(),
+    connectionStrings: [{ name: 'payments' }, { name: 'ledger' }],
+  };
+
+  it('should prefer ConnectionStrings__ environment variables over the config', () => {
+    const result = resolveConnectionStrings(external, {
+      env: { ConnectionStrings__payments: 'Host=env' },
+      values: { payments: 'Host=config', ledger: 'Host=ledger' },
+    });
+
+    expect(result.connectionStrings).toEqual([
+      { name: 'payments', value: 'Host=env' },
+      { name: 'ledger', value: 'Host=ledger' },
+    ]);
+  });
+
+  it('should leave connection strings without a value unset', () => {
+    const result = resolveConnectionStrings(external, { env: {} });
+
+    expect(result.connectionStrings).toEqual(external.connectionStrings);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildPersistentStorages, getBindMountWarnings } from '../../src/api/storage.js';
+
+describe('buildPersistentStorages', () => {
+  it('should prefix volume names with the resource uuid', () => {
+    const { payloads, warnings } = buildPersistentStorages('abc', 'My Cache', [
+      { isData: true, mountPath: '/data' },
+      { isData: true, name: 'Redis Data', mountPath: '/var/lib/redis', isReadOnly: true },
+    ]);
+
+    expect(payloads).toEqual([
+      {
+        type: 'persistent',
+        name: 'abc-my-cache-data',
+        mount_path: '/data',
+        is_read_only: undefined,
+      },
+      {
+        type: 'persistent',
+        name: 'abc-redis-data',
+        mount_path: '/var/lib/redis',
+        is_read_only: true,
+      },
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should name each anonymous volume after its mount path', () => {
+    const { payloads } = buildPersistentStorages('abc', 'api', [
+      { isData: true, mountPath: '/app/uploads' },
+      { isData: true, mountPath: '/app/cache' },
+    ]);
+
+    expect(payloads.map((p) => p.name)).toEqual(['abc-api-app-uploads', 'abc-api-app-cache']);
+  });
+
+  it('should attach absolute bind mounts through their host path', () => {
+    const { payloads } = buildPersistentStorages('abc', 'api', [
+      { isData: false, name: '/srv/config', mountPath: '/etc/app' },
+    ]);
+
+    expect(payloads).toEqual([
+      {
+        type: 'persistent',
+        name: 'abc-etc-app',
+        mount_path: '/etc/app',
+        host_path: '/srv/config',
+        is_read_only: undefined,
+      },
+    ]);
+  });
+
+  it('should skip volumes without a mount path and relative bind mounts', () => {
+    const { payloads, warnings } = buildPersistentStorages('abc', 'api', [
+      { isData: true },
+      { isData: false, name: './config', mountPath: '/etc/app' },
+    ]);
+
+    expect(payloads).toEqual([]);
+    expect(warnings).toEqual([
+      'Bind mount ./config → /etc/app: ./config is relative to the AppHost and does not exist on the Coolify server, not attached',
+    ]);
+  });
+});
+
+describe('getBindMountWarnings', () => {
+  it('should only report relative bind mount sources', () => {
+    expect(
+      getBindMountWarnings([
+        { isData: true, name: 'data', mountPath: '/data' },
+        { isData: false, name: '/srv/a', mountPath: '/a' },
+        { isData: false, name: '../b', mountPath: '/b' },
+      ])
+    ).toEqual([
+      'Bind mount ../b → /b: ../b is relative to the AppHost and does not exist on the Coolify server',
+    ]);
+  });
+});
@@ -97,6 +97,13 @@ describe('CLI', () => {
       expect(stdout).toContain('--api-url');
       expect(stdout).toContain('--token');
       expect(stdout).toContain('--skip-existing');
+      expect(stdout).toContain('--update');
+      expect(stdout).toContain('--wait');
+      expect(stdout).toContain('--wait-timeout');
+      expect(stdout).toContain('--concurrency');
+      expect(stdout).toContain('--rollback-on-failure');
+      expect(stdout).toContain('--request-timeout');
+      expect(stdout).toContain('--retries');
       expect(stdout).toContain('--github-repo');
     });
 
@@ -133,6 +140,24 @@ describe('CLI', () => {
       expect(stdout).toContain('Summary:');
     });
 
+    it('should not print the default values of secret parameters', async () => {
+      const sourcePath = join(testDir, 'Secrets.cs');
+      writeFileSync(
+        sourcePath,
+        [
+          'var builder = DistributedApplication.CreateBuilder(args);',
+          'var password = builder.AddParameter("password", "s3cret", secret: true);',
+          'builder.AddProject<Projects.Api>("api").WithEnvironment("PASSWORD", password);',
+        ].join('\n')
+      );
+
+      const { stdout, exitCode } = await runCli(['parse', sourcePath]);
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('"name": "password"');
+      expect(stdout).not.toContain('s3cret');
+    });
+
     it('should parse complex.cs fixture', async () => {
       const fixturePath = join(FIXTURES_PATH, 'complex.cs');
       const { stdout, exitCode } = await runCli(['parse', fixturePath]);
@@ -191,6 +216,42 @@ describe('CLI', () => {
       expect(stderr).toContain('Error: File not found');
     });
 
+    it('should print warnings with their file:line:column location', async () => {
+      writeFileSync(
+        join(testDir, 'Program.cs'),
+        [
+          'var builder = DistributedApplication.CreateBuilder(args);',
+          'builder.AddProject<Projects.Api>("api")',
+          '    .WithReference(missing);',
+        ].join('\n')
+      );
+
+      const { stderr, exitCode } = await runCli(['parse', 'Program.cs'], { cwd: testDir });
+
+      expect(exitCode).toBe(0);
+      expect(stderr).toContain('Program.cs:3:6: Unresolved reference in api: missing');
+    });
+
+    it('should fail on unsupported methods with --strict', async () => {
+      writeFileSync(
+        join(testDir, 'Program.cs'),
+        [
+          'var builder = DistributedApplication.CreateBuilder(args);',
+          'builder.AddProject<Projects.Api>("api")',
+          '    .WithHttpHealthCheck("/health");',
+        ].join('\n')
+      );
+
+      const lenient = await runCli(['parse', 'Program.cs'], { cwd: testDir });
+      const strict = await runCli(['parse', 'Program.cs', '--strict'], { cwd: testDir });
+
+      expect(lenient.exitCode).toBe(0);
+      expect(strict.exitCode).toBe(1);
+      expect(strict.stderr).toContain(
+        'Program.cs:3:6: Unsupported method in api: WithHttpHealthCheck'
+      );
+    });
+
     it('should display summary with resource counts', async () => {
       const fixturePath = join(FIXTURES_PATH, 'simple.cs');
       const { stdout, exitCode } = await runCli(['parse', fixturePath]);
@@ -477,6 +538,120 @@ describe('CLI', () => {
     });
   });
 
+  describe('plan command', () => {
+    it('should display help for plan command', async () => {
+      const { stdout, exitCode } = await runCli(['plan', '--help']);
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Show what deploy would create');
+      expect(stdout).toContain('--json');
+    });
+
+    it('should be available as diff', async () => {
+      const { stdout, exitCode } = await runCli(['diff', '--help']);
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Show what deploy would create');
+    });
+
+    it('should require credentials', async () => {
+      const fixturePath = join(FIXTURES_PATH, 'simple.cs');
+      const { stderr, exitCode } = await runCli(['plan', fixturePath], {
+        env: { COOLIFY_TOKEN: '', COOLIFY_API_URL: '' },
+      });
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('Missing Coolify API URL');
+    });
+
+    it('should reject an invalid retry count', async () => {
+      const fixturePath = join(FIXTURES_PATH, 'simple.cs');
+      const { stderr, exitCode } = await runCli(['plan', fixturePath, '--retries', '-1'], {
+        env: { COOLIFY_TOKEN: 'token', COOLIFY_API_URL: 'http://localhost:1' },
+      });
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('Invalid --retries: -1');
+    });
+  });
+
+  describe('destroy command', () => {
+    it('should display help for destroy command', async () => {
+      const { stdout, exitCode } = await runCli(['destroy', '--help']);
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('Delete the Coolify resources');
+      expect(stdout).toContain('--yes');
+      expect(stdout).toContain('--delete-volumes');
+      expect(stdout).toContain('--delete-project');
+    });
+
+    it('should fail with non-existent file', async () => {
+      const { stderr, exitCode } = await runCli(['destroy', '/non/existent/file.cs']);
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('Error: File not found');
+    });
+
+    it('should require credentials', async () => {
+      const fixturePath = join(FIXTURES_PATH, 'simple.cs');
+      const { stderr, exitCode } = await runCli(['destroy', fixturePath, '--yes'], {
+        env: { COOLIFY_TOKEN: '', COOLIFY_API_URL: '' },
+      });
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('Missing Coolify API URL');
+    });
+  });
+
+  describe('state command', () => {
+    it('should report an empty state', async () => {
+      const { stdout, exitCode } = await runCli(['state', 'list'], { cwd: testDir });
+
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain('No state recorded for environment "production"');
+    });
+
+    it('should import, list and forget resources', async () => {
+      const imported = await runCli(
+        ['state', 'import', 'db', 'db-uuid', '--type', 'database', '--project-id', 'proj-1'],
+        { cwd: testDir }
+      );
+      expect(imported.exitCode).toBe(0);
+      expect(imported.stdout).toContain('Imported database "db" (uuid: db-uuid)');
+
+      const statePath = join(testDir, '.aspire2coolify', 'state.production.json');
+      const state = JSON.parse(readFileSync(statePath, 'utf-8'));
+      expect(state.projectUuid).toBe('proj-1');
+      expect(state.resources.db).toEqual({ type: 'database', uuid: 'db-uuid' });
+
+      const listed = await runCli(['state', 'list'], { cwd: testDir });
+      expect(listed.stdout).toContain('Project: proj-1');
+      expect(listed.stdout).toContain('- database: db (uuid: db-uuid)');
+
+      const forgotten = await runCli(['state', 'forget', 'db'], { cwd: testDir });
+      expect(forgotten.exitCode).toBe(0);
+      expect(JSON.parse(readFileSync(statePath, 'utf-8')).resources).toEqual({});
+    });
+
+    it('should reject an invalid resource type', async () => {
+      const { stderr, exitCode } = await runCli(
+        ['state', 'import', 'db', 'db-uuid', '--type', 'volume'],
+        { cwd: testDir }
+      );
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('Invalid resource type "volume"');
+    });
+
+    it('should fail to forget an unknown resource', async () => {
+      const { stderr, exitCode } = await runCli(['state', 'forget', 'db'], { cwd: testDir });
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('No resource "db"');
+    });
+  });
+
   describe('init command', () => {
     it('should create config file', async () => {
       const { stdout, exitCode } = await runCli(['init'], { cwd: testDir });
@@ -107,6 +107,19 @@ describe('Config Module', () => {
       expect(template).toContain('services:');
     });
 
+    it('should include parameters section', () => {
+      const template = createConfigTemplate();
+
+      expect(template).toContain('parameters:');
+    });
+
+    it('should include domains section', () => {
+      const template = createConfigTemplate();
+
+      expect(template).toContain('domains:');
+      expect(template).toContain('baseDomain');
+    });
+
     it('should include defaults section', () => {
       const template = createConfigTemplate();
 
@@ -1,10 +1,32 @@
 import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { spawnSync } from 'node:child_process';
+import { chmodSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { generate } from '../../src/generators/coolify/index.js';
+import { parseFile } from '../../src/parser/index.js';
 import { generateDatabaseCommand } from '../../src/generators/coolify/database.js';
-import { generateServiceCommand } from '../../src/generators/coolify/service.js';
+import {
+  generateServiceCommand,
+  generateSqlServerCommand,
+} from '../../src/generators/coolify/service.js';
 import { generateApplicationCommand } from '../../src/generators/coolify/application.js';
+import {
+  buildComposeDocument,
+  buildSqlServerComposeDocument,
+} from '../../src/generators/coolify/compose.js';
 import type { AspireApp, Database, Service, Application } from '../../src/models/aspire.js';
-import { createEmptyAspireApp } from '../../src/models/aspire.js';
+import { createEmptyAspireApp, getSqlServerInstances } from '../../src/models/aspire.js';
+import { resolveApplicationDomain } from '../../src/generators/coolify/domains.js';
+import {
+  applyTypeMappings,
+  validateMappings,
+  InvalidMappingError,
+} from '../../src/generators/coolify/mappings.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
 
 describe('Database Generator', () => {
   it('should generate postgres database API command', () => {
@@ -28,6 +50,37 @@ describe('Database Generator', () => {
     expect(cmd.payload.public_port).toBe(5432);
   });
 
+  it('should map databases to their native Coolify types', () => {
+    const endpoints = (
+      ['mariadb', 'valkey', 'garnet', 'keydb', 'dragonfly', 'clickhouse'] as const
+    ).map(
+      (type) =>
+        generateDatabaseCommand({ name: type, type, hasDataVolume: false, environment: [] })
+          .endpoint
+    );
+
+    expect(endpoints).toEqual([
+      '/databases/mariadb',
+      '/databases/redis',
+      '/databases/keydb',
+      '/databases/keydb',
+      '/databases/dragonfly',
+      '/databases/clickhouse',
+    ]);
+  });
+
+  it('should fall back to postgresql for database types Coolify does not have', () => {
+    const cmd = generateDatabaseCommand({
+      name: 'legacy',
+      type: 'oracle' as Database['type'],
+      hasDataVolume: false,
+      environment: [],
+    });
+
+    expect(cmd.endpoint).toBe('/databases/postgresql');
+    expect(cmd.payload.name).toBe('legacy');
+  });
+
   it('should include custom image in payload', () => {
     const db: Database = {
       name: 'vectordb',
@@ -101,6 +154,179 @@ describe('Service Generator', () => {
   });
 });
 
+describe('Compose Generator', () => {
+  const container: Service = {
+    name: 'Search',
+    type: 'custom',
+    image: 'registry.local:5000/elasticsearch:8.11.0',
+    imageTag: '8.12.0',
+    hostPort: 9201,
+    environment: [
+      { key: 'discovery.type', value: 'single-node' },
+      { key: 'API_URL', value: 'api.Url', isExpression: true },
+    ],
+    volumes: [
+      { isData: true, name: 'es-data', mountPath: '/usr/share/elasticsearch/data' },
+      { isData: false, name: './config', mountPath: '/usr/share/elasticsearch/config' },
+      { isData: true, mountPath: 'no-target' },
+    ],
+    endpoints: [{ port: 9200, protocol: 'http', isExternal: true }],
+    references: [],
+  };
+
+  it('should synthesize a compose document from the container', () => {
+    expect(buildComposeDocument(container)).toBe(
+      [
+        'services:',
+        '  search:',
+        '    image: "registry.local:5000/elasticsearch:8.12.0"',
+        '    environment:',
+        '      - "discovery.type=${discovery.type}"',
+        '      - "API_URL=${API_URL}"',
+        '      - "SERVICE_FQDN_SEARCH_9200"',
+        '    ports:',
+        '      - "9201:9200"',
+        '    expose:',
+        '      - "9200"',
+        '    volumes:',
+        '      - "es-data:/usr/share/elasticsearch/data"',
+        '      - "./config:/usr/share/elasticsearch/config"',
+        'volumes:',
+        '  es-data: {}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should read every variable from Coolify', () => {
+    const compose = buildComposeDocument(container, {
+      extraEnvironmentKeys: ['DB_URL', 'API_URL'],
+    });
+
+    expect(compose).toContain('- "discovery.type=${discovery.type}"');
+    expect(compose).toContain('- "DB_URL=${DB_URL}"');
+    expect(compose.match(/API_URL=/g)).toHaveLength(1);
+  });
+
+  it('should be used for custom containers by the service generator', () => {
+    const cmd = generateServiceCommand({ ...container, imageTag: undefined });
+
+    expect(cmd.payload.type).toBeUndefined();
+    const compose = Buffer.from(cmd.payload.docker_compose_raw as string, 'base64').toString(
+      'utf-8'
+    );
+    expect(compose).toContain('image: "registry.local:5000/elasticsearch:8.11.0"');
+  });
+
+  it('should mount read-only volumes and declare each named volume once', () => {
+    const compose = buildComposeDocument({
+      ...container,
+      volumes: [
+        { isData: true, name: 'shared', mountPath: '/a' },
+        { isData: true, name: 'shared', mountPath: '/b', isReadOnly: true },
+        { isData: false, name: '/srv/conf', mountPath: '/etc/conf', isReadOnly: true },
+      ],
+    });
+
+    expect(compose).toContain('      - "shared:/b:ro"');
+    expect(compose).toContain('      - "/srv/conf:/etc/conf:ro"');
+    expect(compose.match(/^ {2}shared: \{\}$/gm)).toHaveLength(1);
+  });
+
+  it('should give each anonymous volume its own named volume', () => {
+    const compose = buildComposeDocument({
+      ...container,
+      volumes: [
+        { isData: true, mountPath: '/app/uploads' },
+        { isData: true, mountPath: '/app/cache' },
+      ],
+    });
+
+    expect(compose).toContain('      - "search-app-uploads:/app/uploads"');
+    expect(compose).toContain('      - "search-app-cache:/app/cache"');
+    expect(compose).toContain('volumes:\n  search-app-uploads: {}\n  search-app-cache: {}\n');
+  });
+
+  it('should reject containers without an image', () => {
+    expect(() => buildComposeDocument({ ...container, image: undefined })).toThrow(
+      'Container "Search" has no image'
+    );
+  });
+});
+
+describe('SQL Server Generator', () => {
+  const child = (name: string): Database => ({
+    name,
+    type: 'sqlserver',
+    serverName: 'sql',
+    serverVariableName: 'sql',
+    hostPort: 14330,
+    hasDataVolume: true,
+    environment: [],
+  });
+
+  it('should group databases by server', () => {
+    const app: AspireApp = {
+      ...createEmptyAspireApp(),
+      databases: [
+        child('orders'),
+        { name: 'pg', type: 'postgres', hasDataVolume: false, environment: [] },
+        child('catalog'),
+        { name: 'legacy', type: 'sqlserver', hasDataVolume: false, environment: [] },
+      ],
+    };
+
+    const instances = getSqlServerInstances(app);
+
+    expect(instances.map((i) => [i.name, i.databases.map((d) => d.name)])).toEqual([
+      ['sql', ['orders', 'catalog']],
+      ['legacy', []],
+    ]);
+  });
+
+  it('should build a server with a persistent volume and an init step', () => {
+    const [instance] = getSqlServerInstances({
+      ...createEmptyAspireApp(),
+      databases: [child('orders'), child("o'brien")],
+    });
+
+    const compose = buildSqlServerComposeDocument(instance);
+
+    expect(compose).toContain('    image: "mcr.microsoft.com/mssql/server:2022-latest"');
+    expect(compose).toContain('      - "ACCEPT_EULA=Y"');
+    expect(compose).toContain('      - "14330:1433"');
+    expect(compose).toContain('      - "sql-data:/var/opt/mssql"');
+    expect(compose).toContain('  sql-init:');
+    expect(compose).toContain('        condition: service_healthy');
+    expect(compose).toContain("IF DB_ID(N'o''brien') IS NULL CREATE DATABASE [o'brien];");
+    expect(compose).toContain('volumes:\n  sql-data: {}');
+  });
+
+  it('should skip the init step for a server without databases', () => {
+    const compose = buildSqlServerComposeDocument({
+      name: 'sql',
+      image: 'mcr.microsoft.com/azure-sql-edge',
+      hasDataVolume: false,
+      environment: [],
+      databases: [],
+    });
+
+    expect(compose).toContain('image: "mcr.microsoft.com/azure-sql-edge"');
+    expect(compose).not.toContain('sql-init');
+    expect(compose).not.toContain('volumes:');
+  });
+
+  it('should generate a compose service instead of a PostgreSQL database', () => {
+    const app: AspireApp = { ...createEmptyAspireApp(), databases: [child('orders')] };
+    const result = generate(app, { includeComments: true });
+
+    expect(result.commands).toHaveLength(1);
+    expect(result.commands[0].endpoint).toBe('/services');
+    expect(result.commands[0].comment).toBe('SQL Server: sql (databases: orders)');
+    expect(generateSqlServerCommand(getSqlServerInstances(app)[0]).payload.type).toBeUndefined();
+  });
+});
+
 describe('Application Generator', () => {
   it('should generate docker image app API command', () => {
     const app: Application = {
@@ -113,8 +339,7 @@ describe('Application Generator', () => {
       references: [],
     };
 
-    const aspireApp = createEmptyAspireApp();
-    const cmd = generateApplicationCommand(app, aspireApp);
+    const cmd = generateApplicationCommand(app);
 
     expect(cmd.endpoint).toBe('/applications/dockerimage');
     expect(cmd.method).toBe('POST');
@@ -137,8 +362,7 @@ describe('Application Generator', () => {
       references: [],
     };
 
-    const aspireApp = createEmptyAspireApp();
-    const cmd = generateApplicationCommand(app, aspireApp);
+    const cmd = generateApplicationCommand(app);
 
     expect(cmd.payload.ports_exposes).toBe('8080,8081');
   });
@@ -154,13 +378,242 @@ describe('Application Generator', () => {
       references: [],
     };
 
-    const aspireApp = createEmptyAspireApp();
-    const cmd = generateApplicationCommand(app, aspireApp);
+    const cmd = generateApplicationCommand(app);
 
     expect(cmd.payload.docker_registry_image_name).toBe('MyProject.Web');
   });
 });
 
+describe('Domains', () => {
+  const web: Application = {
+    name: 'Web App',
+    type: 'npm',
+    buildPack: 'nixpacks',
+    environment: [],
+    endpoints: [{ protocol: 'http', isExternal: true }],
+    references: [],
+  };
+
+  it('should build https domains from the pattern', () => {
+    expect(resolveApplicationDomain(web, { baseDomain: 'example.com' }, 'production')).toBe(
+      'https://web-app.example.com'
+    );
+    expect(
+      resolveApplicationDomain(
+        web,
+        { baseDomain: 'example.com', pattern: '{name}.{env}.{baseDomain}' },
+        'Staging'
+      )
+    ).toBe('https://web-app.staging.example.com');
+  });
+
+  it('should prefer overrides and keep their scheme', () => {
+    const strategy = {
+      baseDomain: 'example.com',
+      overrides: { 'Web App': 'http://www.example.com' },
+    };
+
+    expect(resolveApplicationDomain(web, strategy, 'production')).toBe('http://www.example.com');
+  });
+
+  it('should target the external port when it is not the first exposed port', () => {
+    const app: Application = {
+      ...web,
+      endpoints: [
+        { port: 9090, protocol: 'http', isExternal: false },
+        { port: 8080, protocol: 'http', isExternal: true },
+      ],
+    };
+
+    expect(resolveApplicationDomain(app, { baseDomain: 'example.com' }, 'production')).toBe(
+      'https://web-app.example.com:8080'
+    );
+  });
+
+  it('should leave internal applications and unconfigured strategies without a domain', () => {
+    const internal = { ...web, endpoints: [{ protocol: 'http' as const, isExternal: false }] };
+
+    expect(resolveApplicationDomain(internal, { baseDomain: 'example.com' }, 'production')).toBe(
+      undefined
+    );
+    expect(resolveApplicationDomain(web, { pattern: '{name}.local' }, 'production')).toBe(
+      undefined
+    );
+    expect(resolveApplicationDomain(web, undefined, 'production')).toBe(undefined);
+  });
+
+  it('should set the domain in generated application commands', () => {
+    const cmd = generateApplicationCommand(web, {
+      environmentName: 'staging',
+      domains: { baseDomain: 'example.com', pattern: '{name}.{env}.{baseDomain}' },
+    });
+
+    expect(cmd.payload.domains).toBe('https://web-app.staging.example.com');
+  });
+});
+
+describe('Mappings', () => {
+  const app: AspireApp = {
+    ...createEmptyAspireApp(),
+    databases: [
+      {
+        name: 'orders',
+        type: 'sqlserver',
+        serverName: 'sql',
+        image: 'mcr.microsoft.com/mssql/server',
+        hasDataVolume: false,
+        environment: [],
+      },
+      { name: 'cache', type: 'redis', hasDataVolume: false, environment: [] },
+    ],
+    services: [
+      {
+        name: 'mail',
+        type: 'maildev',
+        image: 'maildev/maildev',
+        environment: [],
+        volumes: [],
+        endpoints: [],
+        references: [],
+      },
+    ],
+    applications: [
+      {
+        name: 'web',
+        type: 'npm',
+        buildPack: 'nixpacks',
+        environment: [],
+        endpoints: [],
+        references: ['orders'],
+      },
+    ],
+    references: [{ from: 'web', to: 'orders', connectionStringEnv: 'SQLSERVER_CONNECTION_STRING' }],
+  };
+
+  it('should accept known Aspire types and Coolify targets', () => {
+    expect(
+      validateMappings({
+        databases: { sqlserver: 'postgres', redis: 'keydb' },
+        services: { maildev: 'mailpit' },
+        buildPacks: { node: 'static' },
+      })
+    ).toEqual([]);
+    expect(validateMappings(undefined)).toEqual([]);
+  });
+
+  it('should report unknown sources and targets', () => {
+    const errors = validateMappings({
+      databases: { oracle: 'postgresql', sqlserver: 'mssql' },
+      buildPacks: { nixpacks: 'heroku' },
+    });
+
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toBe('mappings.databases: unknown Aspire database type "oracle"');
+    expect(errors[1]).toContain(
+      'mappings.databases.sqlserver: unknown Coolify database type "mssql"'
+    );
+    expect(errors[1]).toContain('expected one of: postgresql');
+    expect(errors[2]).toContain('unknown Coolify build pack "heroku"');
+  });
+
+  it('should retype mapped resources and report each mapping', () => {
+    const { app: mapped, applied } = applyTypeMappings(app, {
+      databases: { sqlserver: 'postgresql' },
+      services: { maildev: 'mailpit' },
+      buildPacks: { nixpacks: 'dockerfile' },
+    });
+
+    expect(mapped.databases[0]).toMatchObject({
+      name: 'orders',
+      type: 'postgres',
+      image: undefined,
+    });
+    expect(mapped.databases[1].type).toBe('redis');
+    expect(mapped.services[0].type).toBe('maildev');
+    expect(mapped.applications[0].buildPack).toBe('dockerfile');
+    expect(getSqlServerInstances(mapped)).toEqual([]);
+    expect(applied).toEqual([
+      { name: 'orders', resourceType: 'database', from: 'sqlserver', to: 'postgresql' },
+      { name: 'mail', resourceType: 'service', from: 'maildev', to: 'mailpit' },
+      { name: 'web', resourceType: 'application', from: 'nixpacks', to: 'dockerfile' },
+    ]);
+    expect(mapped.references[0].connectionStringEnv).toBe('DATABASE_URL');
+    expect(app.databases[0].type).toBe('sqlserver');
+  });
+
+  it('should keep the image of services mapped to custom containers', () => {
+    const { app: mapped } = applyTypeMappings(app, { services: { maildev: 'custom' } });
+
+    expect(mapped.services[0]).toMatchObject({ type: 'custom', image: 'maildev/maildev' });
+  });
+
+  it('should apply service mappings to storage', () => {
+    const withStorage: AspireApp = {
+      ...app,
+      storage: [
+        { name: 'files', type: 'minio', image: 'minio/minio', environment: [], volumes: [] },
+      ],
+    };
+
+    const { app: custom, applied } = applyTypeMappings(withStorage, {
+      services: { minio: 'custom' },
+    });
+    expect(custom.storage).toEqual([]);
+    expect(custom.services.find((s) => s.name === 'files')).toMatchObject({
+      type: 'custom',
+      image: 'minio/minio',
+      endpoints: [],
+      references: [],
+    });
+    expect(applied).toContainEqual({
+      name: 'files',
+      resourceType: 'service',
+      from: 'minio',
+      to: 'custom',
+    });
+
+    const { app: template } = applyTypeMappings(withStorage, {
+      services: { minio: 'minio-community-edition' },
+    });
+    expect(template.storage[0]).toMatchObject({ type: 'minio', image: undefined });
+  });
+
+  it('should reject service mappings of types deployed as databases', () => {
+    expect(validateMappings({ services: { redis: 'custom' } })).toEqual([
+      'mappings.services.redis: redis resources are deployed as databases, map them in mappings.databases',
+    ]);
+  });
+
+  it('should throw InvalidMappingError for invalid mappings', () => {
+    expect(() => applyTypeMappings(app, { services: { maildev: 'mailhog' } })).toThrow(
+      InvalidMappingError
+    );
+  });
+
+  it('should generate mapped resources with their Coolify type', () => {
+    const result = generate(app, {
+      includeComments: true,
+      projectId: 'project-123',
+      mappings: { databases: { sqlserver: 'postgres' } },
+    });
+
+    const orders = result.commands.find((cmd) => cmd.name === 'orders');
+    expect(orders?.endpoint).toBe('/databases/postgresql');
+    expect(orders?.comment).toBe('Database: orders (postgres), mapped from sqlserver');
+    expect(result.commands.some((cmd) => cmd.name === 'sql')).toBe(false);
+    expect(result.mappings).toEqual([
+      { name: 'orders', resourceType: 'database', from: 'sqlserver', to: 'postgres' },
+    ]);
+  });
+
+  it('should return the mapping errors instead of commands', () => {
+    const result = generate(app, { mappings: { databases: { sqlserver: 'oracle' } } });
+
+    expect(result.commands).toEqual([]);
+    expect(result.errors[0]).toContain('unknown Coolify database type "oracle"');
+  });
+});
+
 describe('Full Generator', () => {
   it('should generate commands in correct order', () => {
     const app: AspireApp = {
@@ -208,6 +661,8 @@ describe('Full Generator', () => {
           connectionStringEnv: 'DATABASE_URL',
         },
       ],
+      parameters: [],
+      connectionStrings: [],
     };
 
     const result = generate(app, { includeComments: true });
@@ -239,6 +694,8 @@ describe('Full Generator', () => {
       storage: [],
       applications: [],
       references: [],
+      parameters: [],
+      connectionStrings: [],
     };
 
     // Pass projectId to avoid shell variable expansion mode
@@ -266,6 +723,8 @@ describe('Full Generator', () => {
       storage: [],
       applications: [],
       references: [],
+      parameters: [],
+      connectionStrings: [],
     };
 
     const result = generate(app, {
@@ -293,6 +752,8 @@ describe('Full Generator', () => {
       storage: [],
       applications: [],
       references: [],
+      parameters: [],
+      connectionStrings: [],
     };
 
     const result = generate(app, {
@@ -312,4 +773,207 @@ describe('Full Generator', () => {
     expect(result.script).toContain('Creating project: MyProject');
     expect(result.script).toContain('PROJECT_UUID=$(');
   });
+
+  it('should emit every parsed resource of the full-stack fixture', () => {
+    const { app } = parseFile(join(__dirname, '../fixtures/full-stack.cs'));
+
+    const result = generate(app, { includeComments: true });
+
+    const resources = [
+      ...app.databases.map((db) => `Database: ${db.name}`),
+      ...app.storage.map((s) => `Storage: ${s.name}`),
+      ...app.services.map((s) => `Service: ${s.name}`),
+      ...app.applications.map((a) => `Application: ${a.name}`),
+    ];
+    expect(resources).toContain('Database: analytics');
+    expect(resources).toContain('Application: analytics');
+    expect(result.errors).toEqual([]);
+    const created = result.commands
+      .filter((c) => c.method === 'POST')
+      .map((c) => c.comment?.replace(/ \(.*\)$/, ''));
+    expect(created.sort()).toEqual(resources.sort());
+  });
+});
+
+describe('Environment Commands', () => {
+  it('should set the environment of a created resource through its captured UUID', () => {
+    const app: AspireApp = {
+      ...createEmptyAspireApp(),
+      applications: [
+        {
+          name: 'api-service',
+          type: 'project',
+          buildPack: 'nixpacks',
+          environment: [{ key: 'LOG_LEVEL', value: 'debug' }],
+          endpoints: [],
+          references: [],
+        },
+      ],
+    };
+
+    const result = generate(app, { projectId: 'project-123' });
+
+    expect(result.commands).toHaveLength(2);
+    expect(result.commands[0].uuidVariable).toBe('UUID_API_SERVICE');
+    expect(result.commands[1]).toMatchObject({
+      endpoint: '/applications/${UUID_API_SERVICE}/envs/bulk',
+      method: 'PATCH',
+      payload: { data: [expect.objectContaining({ key: 'LOG_LEVEL', value: 'debug' })] },
+    });
+    expect(result.script).toContain('UUID_API_SERVICE=$(echo "$UUID_API_SERVICE_RESPONSE"');
+    expect(result.script).toContain('echo "Updating api-service..."');
+  });
+
+  it('should read secret parameters from the environment of the script', () => {
+    const app: AspireApp = {
+      ...createEmptyAspireApp(),
+      applications: [
+        {
+          name: 'api',
+          type: 'project',
+          buildPack: 'nixpacks',
+          environment: [
+            {
+              key: 'API_KEY',
+              value: 'apiKey',
+              isExpression: true,
+              parameter: 'api-key',
+              isSecret: true,
+            },
+          ],
+          endpoints: [],
+          references: [],
+        },
+      ],
+      parameters: [{ name: 'api-key', variableName: 'apiKey', secret: true, value: 's3cret' }],
+    };
+
+    const result = generate(app, { projectId: 'project-123' });
+
+    expect(result.commands[1].payload).toEqual({
+      data: [expect.objectContaining({ key: 'API_KEY', value: '$PARAMETER_API_KEY' })],
+    });
+    expect(result.script).toContain(`"value": "'"$(json_escape "$PARAMETER_API_KEY")"'"`);
+    expect(result.script).toContain('if [ -z "$PARAMETER_API_KEY" ]; then');
+    expect(result.script).not.toContain('s3cret');
+  });
+
+  it('should send literal values and secrets unchanged when the script runs', () => {
+    const app: AspireApp = {
+      ...createEmptyAspireApp(),
+      applications: [
+        {
+          name: 'api',
+          type: 'project',
+          buildPack: 'nixpacks',
+          environment: [
+            { key: 'PRICE', value: "costs $HOME and `id`, it's C:\\path", isExpression: false },
+            { key: 'API_KEY', value: 'apiKey', isExpression: true, parameter: 'api-key' },
+          ],
+          endpoints: [],
+          references: [],
+        },
+      ],
+      parameters: [{ name: 'api-key', variableName: 'apiKey', secret: true }],
+    };
+    const secret = 'a "quoted" \\ secret\nline';
+
+    // A curl stub recording the payload of each request
+    const dir = mkdtempSync(join(tmpdir(), 'aspire2coolify-script-'));
+    writeFileSync(
+      join(dir, 'curl'),
+      [
+        '#!/bin/sh',
+        'while [ $# -gt 0 ]; do',
+        '  if [ "$1" = "-d" ]; then printf "%s" "$2" > "$PAYLOADS/$(ls "$PAYLOADS" | wc -l)"; fi',
+        '  shift',
+        'done',
+        `echo '{"uuid":"app-uuid"}'`,
+      ].join('\n')
+    );
+    chmodSync(join(dir, 'curl'), 0o755);
+    const payloads = mkdtempSync(join(tmpdir(), 'aspire2coolify-payloads-'));
+
+    try {
+      const { script } = generate(app, { projectId: 'project-123', serverId: 'server-456' });
+      const run = spawnSync('bash', ['-s'], {
+        input: script,
+        env: {
+          PATH: `${dir}:${process.env.PATH}`,
+          HOME: '/home/deploy',
+          PAYLOADS: payloads,
+          COOLIFY_API_URL: 'https://coolify.example.com',
+          COOLIFY_TOKEN: 'token',
+          PARAMETER_API_KEY: secret,
+        },
+      });
+      expect(run.status).toBe(0);
+
+      const sent = readdirSync(payloads)
+        .sort()
+        .map((file) => JSON.parse(readFileSync(join(payloads, file), 'utf8')));
+      expect(sent[1].data).toEqual([
+        expect.objectContaining({ key: 'PRICE', value: "costs $HOME and `id`, it's C:\\path" }),
+        expect.objectContaining({ key: 'API_KEY', value: secret }),
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+      rmSync(payloads, { recursive: true, force: true });
+    }
+  });
+
+  it('should read external connection strings from the environment of the script', () => {
+    const app: AspireApp = {
+      ...createEmptyAspireApp(),
+      applications: [
+        {
+          name: 'api',
+          type: 'project',
+          buildPack: 'nixpacks',
+          environment: [],
+          endpoints: [],
+          references: ['payments'],
+        },
+      ],
+      references: [{ from: 'api', to: 'payments' }],
+      connectionStrings: [{ name: 'payments', value: 'Host=payments.example.com' }],
+    };
+
+    const result = generate(app, { projectId: 'project-123' });
+
+    expect(result.commands).toHaveLength(2);
+    expect(result.commands[1].payload).toEqual({
+      data: [
+        expect.objectContaining({
+          key: 'ConnectionStrings__payments',
+          value: '$CONNECTION_STRING_PAYMENTS',
+        }),
+      ],
+    });
+    expect(result.script).toContain('CONNECTION_STRING_PAYMENTS - Value of an AddConnectionString');
+    expect(result.script).toContain('if [ -z "$CONNECTION_STRING_PAYMENTS" ]; then');
+    expect(result.script).not.toContain('payments.example.com');
+  });
+
+  it('should not capture the UUID of resources without environment', () => {
+    const app: AspireApp = {
+      ...createEmptyAspireApp(),
+      services: [
+        {
+          name: 'mq',
+          type: 'rabbitmq',
+          environment: [],
+          volumes: [],
+          endpoints: [],
+          references: [],
+        },
+      ],
+    };
+
+    const result = generate(app, { projectId: 'project-123' });
+
+    expect(result.commands).toHaveLength(1);
+    expect(result.commands[0].uuidVariable).toBeUndefined();
+    expect(result.script).not.toContain('_RESPONSE');
+  });
 });
@@ -2,6 +2,12 @@ import { describe, it, expect } from 'vitest';
 import { isDatabaseChain, extractDatabase, extractChildDatabases } from '../../src/parser/extractors/database.js';
 import { isApplicationChain, extractApplication } from '../../src/parser/extractors/application.js';
 import { isContainerChain, extractContainer } from '../../src/parser/extractors/container.js';
+import {
+  isParameterChain,
+  extractParameter,
+  isConnectionStringChain,
+  extractConnectionString,
+} from '../../src/parser/extractors/parameter.js';
 import type { FluentChain, MethodCall } from '../../src/parser/tokenizer.js';
 
 // Helper to create a FluentChain for testing
@@ -93,6 +99,19 @@ describe('Database Extractor', () => {
       expect(isDatabaseChain(chain)).toBe(true);
     });
 
+    it('should recognize AddMariaDB, AddValkey, AddGarnet, AddKeyDB, AddDragonfly and AddClickHouse as databases', () => {
+      for (const method of [
+        'AddMariaDB',
+        'AddValkey',
+        'AddGarnet',
+        'AddKeyDB',
+        'AddDragonfly',
+        'AddClickHouse',
+      ]) {
+        expect(isDatabaseChain(createChain(method, 'db'))).toBe(true);
+      }
+    });
+
     it('should not recognize AddNpmApp as database', () => {
       const chain = createChain('AddNpmApp', 'webapp');
       expect(isDatabaseChain(chain)).toBe(false);
@@ -144,6 +163,15 @@ describe('Database Extractor', () => {
       expect(result.type).toBe('redis');
     });
 
+    it('should extract Redis-compatible and other native Coolify databases', () => {
+      expect(extractDatabase(createChain('AddMariaDB', 'maria')).type).toBe('mariadb');
+      expect(extractDatabase(createChain('AddValkey', 'cache')).type).toBe('valkey');
+      expect(extractDatabase(createChain('AddGarnet', 'cache')).type).toBe('garnet');
+      expect(extractDatabase(createChain('AddKeyDB', 'cache')).type).toBe('keydb');
+      expect(extractDatabase(createChain('AddDragonfly', 'cache')).type).toBe('dragonfly');
+      expect(extractDatabase(createChain('AddClickHouse', 'analytics')).type).toBe('clickhouse');
+    });
+
     it('should extract WithImage', () => {
       const chain = createChain('AddPostgres', 'mydb', {
         chainedMethods: [createMethod('WithImage', [], '"pgvector/pgvector"')],
@@ -374,6 +402,21 @@ describe('Application Extractor', () => {
       expect(result.references).toEqual([]);
     });
 
+    it('should extract application volumes and bind mounts', () => {
+      const chain = createChain('AddDockerfile', 'worker', {
+        chainedMethods: [
+          createMethod('WithVolume', ['"uploads"', '"/app/uploads"'], '"uploads", "/app/uploads"'),
+          createMethod('WithBindMount', ['"./seed"', '"/app/seed"'], '"./seed", "/app/seed"'),
+        ],
+      });
+      const result = extractApplication(chain);
+
+      expect(result.volumes).toEqual([
+        { isData: true, name: 'uploads', mountPath: '/app/uploads', isReadOnly: undefined },
+        { isData: false, name: './seed', mountPath: '/app/seed', isReadOnly: undefined },
+      ]);
+    });
+
     it('should extract project with dockerfile buildpack', () => {
       const chain = createChain('AddProject', 'api');
       const result = extractApplication(chain);
@@ -827,6 +870,55 @@ describe('Container Extractor', () => {
       expect(result.volumes[0].mountPath).toBe('/etc/rabbitmq');
     });
 
+    it('should read a WithDataVolume name argument as the volume name', () => {
+      const chain = createChain('AddRabbitMQ', 'rabbitmq', {
+        chainedMethods: [createMethod('WithDataVolume', ['"mq-data"'], '"mq-data"')],
+      });
+      const result = extractContainer(chain);
+
+      expect(result.volumes).toEqual([{ isData: true, name: 'mq-data' }]);
+    });
+
+    it('should extract named and anonymous WithVolume', () => {
+      const chain = createChain('AddContainer', 'app', {
+        chainedMethods: [
+          createMethod('WithVolume', ['"cache"', '"/var/cache"'], '"cache", "/var/cache"'),
+          createMethod('WithVolume', ['"/tmp/work"'], '"/tmp/work"'),
+          createMethod(
+            'WithVolume',
+            ['target: "/data"', 'isReadOnly: true'],
+            'target: "/data", isReadOnly: true'
+          ),
+        ],
+      });
+      const result = extractContainer(chain);
+
+      expect(result.volumes).toEqual([
+        { isData: true, name: 'cache', mountPath: '/var/cache', isReadOnly: undefined },
+        { isData: true, name: undefined, mountPath: '/tmp/work', isReadOnly: undefined },
+        { isData: true, name: undefined, mountPath: '/data', isReadOnly: true },
+      ]);
+    });
+
+    it('should extract read-only WithBindMount', () => {
+      const chain = createChain('AddRabbitMQ', 'rabbitmq', {
+        chainedMethods: [
+          createMethod(
+            'WithBindMount',
+            ['"/srv/conf"', '"/etc/rabbitmq"', 'isReadOnly: true'],
+            '"/srv/conf", "/etc/rabbitmq", isReadOnly: true'
+          ),
+        ],
+      });
+      const result = extractContainer(chain);
+
+      expect(result.volumes[0]).toMatchObject({
+        name: '/srv/conf',
+        mountPath: '/etc/rabbitmq',
+        isReadOnly: true,
+      });
+    });
+
     it('should extract WithHttpEndpoint', () => {
       const chain = createChain('AddSeq', 'logs', {
         chainedMethods: [createMethod('WithHttpEndpoint', ['5341'], '5341')],
@@ -910,3 +1002,56 @@ describe('Container Extractor', () => {
     });
   });
 });
+
+describe('Parameter Extractor', () => {
+  it('should detect AddParameter chains', () => {
+    expect(isParameterChain(createChain('AddParameter', 'api-key'))).toBe(true);
+    expect(isParameterChain(createChain('AddContainer', 'api-key'))).toBe(false);
+  });
+
+  it('should extract a secret parameter', () => {
+    const chain = createChain('AddParameter', 'api-key', {
+      variableName: 'apiKey',
+      rootArgs: ['"api-key"', 'secret: true'],
+    });
+
+    expect(extractParameter(chain)).toEqual({
+      name: 'api-key',
+      variableName: 'apiKey',
+      secret: true,
+    });
+  });
+
+  it('should extract positional default values and secret flags', () => {
+    const withValue = createChain('AddParameter', 'region', {
+      rootArgs: ['"region"', '"eu-west"'],
+    });
+    const secret = createChain('AddParameter', 'password', {
+      rootArgs: ['"password"', 'true'],
+    });
+
+    expect(extractParameter(withValue)).toMatchObject({ secret: false, value: 'eu-west' });
+    expect(extractParameter(secret)).toMatchObject({ secret: true });
+    expect(extractParameter(secret).value).toBeUndefined();
+  });
+});
+
+describe('Connection String Extractor', () => {
+  it('should detect AddConnectionString chains', () => {
+    expect(isConnectionStringChain(createChain('AddConnectionString', 'payments'))).toBe(true);
+    expect(isConnectionStringChain(createChain('AddParameter', 'payments'))).toBe(false);
+  });
+
+  it('should extract the custom environment variable', () => {
+    const chain = createChain('AddConnectionString', 'payments', {
+      variableName: 'payments',
+      rootArgs: ['"payments"', 'environmentVariableName: "PAYMENTS_URL"'],
+    });
+
+    expect(extractConnectionString(chain)).toEqual({
+      name: 'payments',
+      variableName: 'payments',
+      environmentVariable: 'PAYMENTS_URL',
+    });
+  });
+});
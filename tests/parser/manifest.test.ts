@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseFile, parseManifest } from '../../src/parser/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const manifestPath = resolve(__dirname, '../fixtures/aspire-manifest.json');
+
+describe('Manifest Parser', () => {
+  it('should be selected by parseFile for .json files', () => {
+    const result = parseFile(manifestPath);
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.app.applications.map((a) => a.name)).toEqual([
+      'catalogapi',
+      'frontend',
+      'worker',
+    ]);
+  });
+
+  it('should detect databases from their container image', () => {
+    const { app } = parseFile(manifestPath);
+
+    expect(app.databases.map((db) => [db.name, db.type])).toEqual([
+      ['cache', 'redis'],
+      ['catalogdb', 'postgres'],
+    ]);
+    expect(app.databases.find((db) => db.name === 'cache')).toMatchObject({
+      image: 'docker.io/library/redis',
+      imageTag: '7.4',
+      hostPort: 6380,
+    });
+  });
+
+  it('should replace a server by its AddDatabase databases', () => {
+    const { app } = parseFile(manifestPath);
+
+    expect(app.databases.find((db) => db.name === 'postgres')).toBeUndefined();
+    expect(app.databases.find((db) => db.name === 'catalogdb')).toMatchObject({
+      serverName: 'postgres',
+      image: 'docker.io/library/postgres',
+      imageTag: '16.4',
+      hasDataVolume: true,
+    });
+  });
+
+  it('should map known images to services and others to custom containers', () => {
+    const { app } = parseFile(manifestPath);
+
+    expect(app.services.map((s) => [s.name, s.type])).toEqual([
+      ['messaging', 'rabbitmq'],
+      ['mailer', 'custom'],
+    ]);
+    expect(app.services[1]).toMatchObject({
+      image: 'ghcr.io/acme/mailer',
+      imageTag: '1.2.0',
+      environment: [{ key: 'SMTP_HOST', value: 'smtp.example.com', isExpression: false }],
+      volumes: [
+        {
+          isData: false,
+          name: '/srv/mailer/templates',
+          mountPath: '/app/templates',
+          isReadOnly: true,
+        },
+      ],
+      endpoints: [{ name: 'http', targetPort: 8025, protocol: 'http', isExternal: false }],
+    });
+  });
+
+  it('should turn connection string and binding expressions into references', () => {
+    const { app } = parseFile(manifestPath);
+
+    expect(app.references).toEqual([
+      { from: 'catalogapi', to: 'catalogdb', connectionStringEnv: 'DATABASE_URL' },
+      { from: 'catalogapi', to: 'cache', connectionStringEnv: 'REDIS_URL' },
+      { from: 'catalogapi', to: 'messaging' },
+      { from: 'frontend', to: 'catalogapi' },
+      { from: 'worker', to: 'messaging' },
+      { from: 'mailer', to: 'catalogdb', connectionStringEnv: 'DATABASE_URL' },
+    ]);
+  });
+
+  it('should keep literal values and parameter expressions in the environment', () => {
+    const { app } = parseFile(manifestPath);
+    const api = app.applications.find((a) => a.name === 'catalogapi');
+
+    expect(api?.environment).toEqual([
+      {
+        key: 'OTEL_DOTNET_EXPERIMENTAL_OTLP_EMIT_EXCEPTION_LOG_ATTRIBUTES',
+        value: 'true',
+        isExpression: false,
+      },
+      { key: 'ASPNETCORE_FORWARDEDHEADERS_ENABLED', value: 'true', isExpression: false },
+      { key: 'API_KEY', value: '{api-key.value}', isExpression: true },
+    ]);
+  });
+
+  it('should extract projects, npm executables and Dockerfiles as applications', () => {
+    const { app } = parseFile(manifestPath);
+
+    expect(app.applications[0]).toMatchObject({
+      type: 'project',
+      buildPack: 'dockerfile',
+      sourcePath: '../Shop.CatalogApi',
+      project: 'Shop.CatalogApi',
+    });
+    expect(app.applications[1]).toMatchObject({
+      type: 'npm',
+      buildPack: 'nixpacks',
+      sourcePath: '../Shop.Frontend',
+      runScript: 'start',
+      endpoints: [{ name: 'http', targetPort: 3000, protocol: 'http', isExternal: true }],
+    });
+    expect(app.applications[2]).toMatchObject({
+      type: 'dockerfile',
+      buildPack: 'dockerfile',
+      sourcePath: '../Shop.Worker',
+    });
+  });
+
+  it('should warn about unsupported resource types', () => {
+    const result = parseFile(manifestPath);
+
+    expect(result.warnings).toEqual([
+      { message: 'Unsupported manifest resource type azure.bicep.v0: insights' },
+    ]);
+  });
+
+  it('should report unsupported resource types as errors in strict mode', () => {
+    const result = parseFile(manifestPath, { strict: true });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.errors).toEqual([
+      { message: 'Unsupported manifest resource type azure.bicep.v0: insights' },
+    ]);
+  });
+
+  it('should model connection string parameters as external resources', () => {
+    const result = parseManifest(
+      JSON.stringify({
+        resources: {
+          payments: {
+            type: 'parameter.v0',
+            connectionString: '{payments.value}',
+            value: '{payments.inputs.value}',
+            inputs: { value: { type: 'string', secret: true } },
+          },
+          api: {
+            type: 'project.v0',
+            path: '../Api/Api.csproj',
+            env: { ConnectionStrings__payments: '{payments.connectionString}' },
+          },
+        },
+      })
+    );
+
+    expect(result.app.connectionStrings).toEqual([{ name: 'payments' }]);
+    expect(result.app.parameters).toEqual([]);
+    expect(result.app.references).toEqual([{ from: 'api', to: 'payments' }]);
+    expect(result.app.applications[0].environment).toEqual([]);
+  });
+
+  it('should report invalid JSON as a parse error', () => {
+    const result = parseManifest('{ "resources": ');
+
+    expect(result.errors[0].message).toContain('Invalid manifest');
+    expect(result.app.applications).toHaveLength(0);
+  });
+});
@@ -80,6 +80,26 @@ describe('Tokenizer', () => {
       expect(chains[0].chainedMethods[1].method).toBe('WithHostPort');
     });
 
+    it('should map chains and methods back to the original source', () => {
+      const source = [
+        '/* Databases */',
+        'var db = builder.AddPostgres("mydb")',
+        '    .WithDataVolume()   // persisted',
+        '    .WithHostPort(5432);',
+      ].join('\n');
+      const [chain] = extractFluentChains(source);
+
+      expect(chain.span).toEqual({ start: { line: 2, column: 1 }, end: { line: 4, column: 25 } });
+      expect(chain.callSpan).toEqual({
+        start: { line: 2, column: 10 },
+        end: { line: 2, column: 37 },
+      });
+      expect(chain.chainedMethods.map((m) => m.span?.start)).toEqual([
+        { line: 3, column: 6 },
+        { line: 4, column: 6 },
+      ]);
+    });
+
     it('should extract chain without variable assignment', () => {
       const source = 'builder.AddNpmApp("webapp", "../app").WithReference(db);';
       const chains = extractFluentChains(source);
@@ -172,6 +192,180 @@ describe('Parser', () => {
     });
   });
 
+  describe('parameters', () => {
+    it('should extract AddParameter resources and keep their env expressions', () => {
+      const source = `
+        var apiKey = builder.AddParameter("api-key", secret: true);
+        builder.AddProject<Projects.Api>("api").WithEnvironment("API_KEY", apiKey);
+      `;
+
+      const result = parseSource(source);
+
+      expect(result.app.parameters).toEqual([
+        { name: 'api-key', variableName: 'apiKey', secret: true },
+      ]);
+      expect(result.app.applications[0].environment).toEqual([
+        { key: 'API_KEY', value: 'apiKey', isExpression: true },
+      ]);
+    });
+  });
+
+  describe('connection strings', () => {
+    const source = `
+      var payments = builder.AddConnectionString("payments");
+      var ledger = builder.AddConnectionString("ledger", "LEDGER_URL");
+      builder.AddProject<Projects.Api>("api").WithReference(payments).WithReference(ledger);
+    `;
+
+    it('should model AddConnectionString as an external resource', () => {
+      const result = parseSource(source);
+
+      expect(result.app.connectionStrings).toEqual([
+        { name: 'payments', variableName: 'payments' },
+        { name: 'ledger', variableName: 'ledger', environmentVariable: 'LEDGER_URL' },
+      ]);
+      expect(result.app.services).toHaveLength(0);
+      expect(result.app.databases).toHaveLength(0);
+    });
+
+    it('should resolve references to connection strings', () => {
+      const result = parseSource(source);
+
+      expect(result.app.references).toEqual([
+        { from: 'api', to: 'payments' },
+        { from: 'api', to: 'ledger', connectionStringEnv: 'LEDGER_URL' },
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  describe('application references', () => {
+    it('should build references between applications', () => {
+      const source = `
+        var api = builder.AddProject<Projects.Api>("api");
+        builder.AddProject<Projects.Gateway>("gateway").WithReference(api);
+      `;
+
+      const result = parseSource(source);
+
+      expect(result.app.references).toEqual([{ from: 'gateway', to: 'api' }]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should resolve references to applications declared later', () => {
+      const source = `
+        var gateway = builder.AddProject<Projects.Gateway>("gateway").WithReference(api);
+        var api = builder.AddProject<Projects.Api>("api");
+      `;
+
+      const result = parseSource(source);
+
+      expect(result.app.references).toEqual([{ from: 'gateway', to: 'api' }]);
+    });
+
+    it('should still warn about unknown references', () => {
+      const source = `
+        builder.AddProject<Projects.Gateway>("gateway").WithReference(missing);
+      `;
+
+      const result = parseSource(source);
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ message: 'Unresolved reference in gateway: missing' })
+      );
+    });
+  });
+
+  describe('source locations', () => {
+    const source = [
+      'var builder = DistributedApplication.CreateBuilder(args);',
+      '',
+      '// The API',
+      'var api = builder.AddProject<Projects.Api>("api")',
+      '    .WithHttpEndpoint(port: 8080)',
+      '    .WithReference(missing);',
+      '',
+      'builder.AddContainer("api", "nginx");',
+    ].join('\n');
+
+    it('should locate unresolved references at their WithReference call', () => {
+      const result = parseSource(source);
+
+      expect(result.warnings).toContainEqual({
+        message: 'Unresolved reference in api: missing',
+        line: 6,
+        column: 6,
+      });
+    });
+
+    it('should locate duplicate resources at their second declaration', () => {
+      const result = parseSource(source);
+
+      expect(result.warnings).toContainEqual({
+        message: 'Duplicate resource name: api',
+        line: 8,
+        column: 1,
+      });
+    });
+  });
+
+  describe('unsupported methods', () => {
+    const source = [
+      'var builder = DistributedApplication.CreateBuilder(args);',
+      'var bus = builder.AddAzureServiceBus("messaging");',
+      'builder.AddProject<Projects.Api>("api")',
+      '    .WithHttpHealthCheck("/health")',
+      '    .WithExternalHttpEndpoints();',
+    ].join('\n');
+
+    it('should warn about methods no extractor understands', () => {
+      const result = parseSource(source);
+
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([
+        { message: 'Unsupported resource type AddAzureServiceBus: messaging', line: 2, column: 11 },
+        { message: 'Unsupported method in api: WithHttpHealthCheck', line: 4, column: 6 },
+      ]);
+      expect(result.app.applications).toHaveLength(1);
+    });
+
+    it('should report them as errors in strict mode', () => {
+      const result = parseSource(source, { strict: true });
+
+      expect(result.warnings).toEqual([]);
+      expect(result.errors).toMatchObject([
+        { message: 'Unsupported resource type AddAzureServiceBus: messaging', line: 2, column: 11 },
+        { message: 'Unsupported method in api: WithHttpHealthCheck', line: 4, column: 6 },
+      ]);
+    });
+
+    it('should only report Add* calls on the builder or on a resource', () => {
+      const result = parseSource(
+        [
+          'var app = DistributedApplication.CreateBuilder(args);',
+          'app.Configuration.AddJsonFile("x.json");',
+          'app.Services.AddHealthChecks();',
+          'var cosmos = app.AddAzureCosmosDB("cosmos");',
+          'cosmos.AddCosmosDatabase("catalog");',
+        ].join('\n'),
+        { strict: true }
+      );
+
+      expect(result.errors.map((e) => e.message)).toEqual([
+        'Unsupported resource type AddAzureCosmosDB: cosmos',
+        'Unsupported resource type AddCosmosDatabase: catalog',
+      ]);
+    });
+
+    it('should accept the fixtures in strict mode', () => {
+      for (const fixture of ['simple.cs', 'complex.cs', 'javascript-apps.cs', 'full-stack.cs']) {
+        const result = parseFile(resolve(__dirname, '../fixtures', fixture), { strict: true });
+
+        expect(result.errors).toEqual([]);
+      }
+    });
+  });
+
   describe('parseFile', () => {
     it('should parse simple.cs fixture', () => {
       const fixturePath = resolve(__dirname, '../fixtures/simple.cs');
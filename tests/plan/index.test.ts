@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { buildDeploymentPlan, getCreationEndpoint, type PlanConfig } from '../../src/plan/index.js';
+import { generate } from '../../src/generators/coolify/index.js';
+import type { AspireApp } from '../../src/models/aspire.js';
+import { createEmptyAspireApp } from '../../src/models/aspire.js';
+
+const config: PlanConfig = {
+  projectUuid: 'project-123',
+  serverUuid: 'server-456',
+  environmentName: 'production',
+};
+
+const app: AspireApp = {
+  ...createEmptyAspireApp(),
+  databases: [{ name: 'db', type: 'postgres', hasDataVolume: false, environment: [] }],
+  storage: [{ name: 'files', type: 'minio', environment: [], volumes: [] }],
+  services: [
+    {
+      name: 'cache',
+      type: 'custom',
+      image: 'nginx',
+      environment: [{ key: 'MODE', value: 'fast' }],
+      volumes: [],
+      endpoints: [],
+      references: ['db'],
+    },
+  ],
+  applications: [
+    {
+      name: 'web',
+      type: 'project',
+      buildPack: 'nixpacks',
+      sourcePath: '../Web',
+      environment: [],
+      endpoints: [],
+      references: ['db'],
+      waitFor: ['cache'],
+    },
+  ],
+  references: [
+    { from: 'cache', to: 'db', connectionStringEnv: 'DATABASE_URL' },
+    { from: 'web', to: 'db', connectionStringEnv: 'DATABASE_URL' },
+  ],
+};
+
+describe('plan', () => {
+  describe('buildDeploymentPlan', () => {
+    it('should plan every resource after its dependencies', () => {
+      const plan = buildDeploymentPlan(app, config);
+
+      expect(plan.resources.map((r) => [r.kind, r.name, getCreationEndpoint(r)])).toEqual([
+        ['database', 'db', '/databases/postgresql'],
+        ['storage', 'files', '/services'],
+        ['service', 'cache', '/services'],
+        ['application', 'web', '/applications/dockerimage'],
+      ]);
+      expect(plan.resources.find((r) => r.name === 'web')?.dependsOn).toEqual([
+        'database:db',
+        'service:cache',
+      ]);
+    });
+
+    it('should create storage as the minio-community-edition template', () => {
+      const plan = buildDeploymentPlan(app, config);
+
+      expect(plan.resources.find((r) => r.name === 'files')?.request).toMatchObject({
+        type: 'minio-community-edition',
+      });
+    });
+
+    it('should declare the reference variables in custom compose documents', () => {
+      const cache = buildDeploymentPlan(app, config).resources.find((r) => r.name === 'cache');
+      const compose = Buffer.from(
+        (cache?.request as { docker_compose_raw: string }).docker_compose_raw,
+        'base64'
+      ).toString('utf8');
+
+      expect(compose).toContain('"MODE=${MODE}"');
+      expect(compose).toContain('"DATABASE_URL=${DATABASE_URL}"');
+    });
+
+    it('should create applications from GitHub when configured', () => {
+      const plan = buildDeploymentPlan(app, {
+        ...config,
+        github: { repository: 'https://github.com/org/repo', basePath: 'src' },
+      });
+
+      const web = plan.resources.find((r) => r.name === 'web');
+      expect(web && getCreationEndpoint(web)).toBe('/applications/public');
+      expect(web?.request).toMatchObject({
+        payload: { git_repository: 'https://github.com/org/repo', base_directory: 'src/Web' },
+      });
+    });
+
+    it('should carry the error of a resource that cannot be created', () => {
+      const plan = buildDeploymentPlan(
+        { ...app, services: [{ ...app.services[0], image: undefined }] },
+        config
+      );
+
+      const cache = plan.resources.find((r) => r.name === 'cache');
+      expect(cache?.request).toBeUndefined();
+      expect(cache?.error).toBe('Container "cache" has no image');
+    });
+
+    it('should record the type mapping of each mapped resource', () => {
+      const plan = buildDeploymentPlan(app, {
+        ...config,
+        mappings: { databases: { postgres: 'mysql' } },
+      });
+
+      const db = plan.resources.find((r) => r.name === 'db');
+      expect(db && getCreationEndpoint(db)).toBe('/databases/mysql');
+      expect(db?.mapping).toEqual({ from: 'postgres', to: 'mysql' });
+    });
+  });
+
+  describe('generate', () => {
+    it('should render the creation requests of the plan', () => {
+      const github = { repository: 'https://github.com/org/repo' };
+      const plan = buildDeploymentPlan(app, { ...config, github });
+      const result = generate(app, {
+        projectId: config.projectUuid,
+        serverId: config.serverUuid,
+        environmentName: config.environmentName,
+        github,
+      });
+
+      const creations = result.commands.filter((cmd) => cmd.method === 'POST');
+      expect(creations.map((cmd) => cmd.endpoint)).toEqual(plan.resources.map(getCreationEndpoint));
+      expect(creations.map((cmd) => cmd.payload)).toEqual(
+        plan.resources.map((r) =>
+          r.kind === 'database' || r.kind === 'application' ? r.request?.payload : r.request
+        )
+      );
+    });
+  });
+});
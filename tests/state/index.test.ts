@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  getStatePath,
+  createEmptyState,
+  loadState,
+  saveState,
+  hashPayload,
+  recordDeployment,
+  importResource,
+  forgetResources,
+} from '../../src/state/index.js';
+import type { DeployConfig } from '../../src/api/deployer.js';
+import type { AspireApp } from '../../src/models/aspire.js';
+import { createEmptyAspireApp } from '../../src/models/aspire.js';
+
+describe('State Module', () => {
+  let testDir: string;
+
+  const config: DeployConfig = {
+    projectUuid: 'project-123',
+    serverUuid: 'server-456',
+    environmentName: 'production',
+  };
+
+  const app: AspireApp = {
+    ...createEmptyAspireApp(),
+    databases: [{ name: 'db', type: 'postgres', hasDataVolume: false, environment: [] }],
+    applications: [
+      { name: 'web', type: 'project', environment: [], endpoints: [], references: [] },
+    ],
+  };
+
+  beforeEach(() => {
+    testDir = join(
+      tmpdir(),
+      `aspire2coolify-state-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('getStatePath', () => {
+    it('should name the file after the environment', () => {
+      expect(getStatePath('production', testDir)).toBe(join(testDir, 'state.production.json'));
+    });
+
+    it('should sanitize environment names', () => {
+      expect(getStatePath('feature/x y', testDir)).toBe(join(testDir, 'state.feature_x_y.json'));
+    });
+  });
+
+  describe('loadState / saveState', () => {
+    it('should return undefined when no state was saved', () => {
+      expect(loadState('production', testDir)).toBeUndefined();
+    });
+
+    it('should round-trip a state, creating the directory', () => {
+      const dir = join(testDir, '.aspire2coolify');
+      const state = importResource(createEmptyState('staging'), 'db', 'database', 'db-uuid');
+
+      const statePath = saveState(state, dir);
+
+      expect(statePath).toBe(join(dir, 'state.staging.json'));
+      expect(loadState('staging', dir)).toEqual(state);
+    });
+
+    it('should reject a corrupted state file', () => {
+      writeFileSync(join(testDir, 'state.production.json'), '{ not json');
+
+      expect(() => loadState('production', testDir)).toThrow('Invalid state file');
+    });
+
+    it('should reject an unsupported format', () => {
+      writeFileSync(join(testDir, 'state.production.json'), JSON.stringify({ version: 2 }));
+
+      expect(() => loadState('production', testDir)).toThrow('unsupported format');
+    });
+  });
+
+  describe('recordDeployment', () => {
+    it('should record project, server and successful resources with payload hashes', () => {
+      const state = recordDeployment(createEmptyState('production'), app, config, [
+        { success: true, resourceType: 'database', name: 'db', uuid: 'db-uuid' },
+        { success: false, resourceType: 'application', name: 'web', error: 'boom' },
+      ]);
+
+      expect(state.projectUuid).toBe('project-123');
+      expect(state.serverUuid).toBe('server-456');
+      expect(Object.keys(state.resources)).toEqual(['db']);
+      expect(state.resources.db.uuid).toBe('db-uuid');
+      expect(state.resources.db.payloadHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should keep the previous hash of skipped resources', () => {
+      const previous = {
+        ...createEmptyState('production'),
+        resources: { db: { type: 'database' as const, uuid: 'db-uuid', payloadHash: 'old-hash' } },
+      };
+
+      const state = recordDeployment(previous, app, config, [
+        { success: true, resourceType: 'database', name: 'db', uuid: 'db-uuid', skipped: true },
+      ]);
+
+      expect(state.resources.db.payloadHash).toBe('old-hash');
+    });
+
+    it('should not record rolled back resources', () => {
+      const state = recordDeployment(createEmptyState('production'), app, config, [
+        { success: true, resourceType: 'database', name: 'db', uuid: 'db-uuid', rolledBack: true },
+      ]);
+
+      expect(state.resources).toEqual({});
+    });
+  });
+
+  describe('hashPayload', () => {
+    it('should be stable for equal payloads', () => {
+      expect(hashPayload({ a: 1 })).toBe(hashPayload({ a: 1 }));
+      expect(hashPayload({ a: 1 })).not.toBe(hashPayload({ a: 2 }));
+    });
+  });
+
+  describe('forgetResources', () => {
+    it('should remove entries without touching others', () => {
+      let state = importResource(createEmptyState('production'), 'db', 'database', 'db-uuid');
+      state = importResource(state, 'web', 'application', 'web-uuid');
+
+      expect(Object.keys(forgetResources(state, ['db']).resources)).toEqual(['web']);
+    });
+  });
+});